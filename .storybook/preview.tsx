@@ -0,0 +1,120 @@
+import type { Preview } from '@storybook/react-vite'
+import { ThemeProvider, type ColorSchemePreference } from '../src/components/Theme/ThemeProvider'
+import { EXAMPLE_THEMES, type ExampleThemeName } from '../src/components/Theme/exampleThemes'
+import type { StylingMode } from '../src/components/Button/tokens'
+import type { ButtonDensity } from '../src/tokens/sizes'
+import { loadRoboto } from '../src/fonts/roboto'
+import './preview.css'
+// Opt-in stylesheet behind the `styling: static` toolbar value
+import '../src/components/Button/Button.static.css'
+
+const preview: Preview = {
+  parameters: {
+    controls: {
+      matchers: {
+       color: /(background|color)$/i,
+       date: /Date$/i,
+      },
+    },
+
+    a11y: {
+      // 'todo' - show a11y violations in the test UI only
+      // 'error' - fail CI on a11y violations
+      // 'off' - skip a11y checks entirely
+      test: 'todo'
+    }
+  },
+
+  // Toolbar switches: view any story under an alternate theme, color scheme,
+  // styling mode and/or density (URL: `&globals=theme:subBrand;colorScheme:dark`).
+  globalTypes: {
+    theme: {
+      description: 'Theme applied through ThemeProvider',
+      toolbar: {
+        title: 'Theme',
+        icon: 'paintbrush',
+        items: [
+          { value: 'default',  title: 'Default (Figma)' },
+          { value: 'subBrand', title: 'Sub-brand' },
+          { value: 'pill',     title: 'Pill' },
+        ],
+        dynamicTitle: true,
+      },
+    },
+    colorScheme: {
+      description: 'Color scheme, set as data-theme on <html>',
+      toolbar: {
+        title: 'Scheme',
+        icon: 'mirror',
+        items: [
+          { value: 'light',  title: 'Light' },
+          { value: 'dark',   title: 'Dark' },
+          { value: 'system', title: 'System (prefers-color-scheme)' },
+        ],
+        dynamicTitle: true,
+      },
+    },
+    styling: {
+      description: 'Inline CSS variables, or classes from Button.static.css',
+      toolbar: {
+        title: 'Styling',
+        icon: 'lock',
+        items: [
+          { value: 'inline', title: 'Inline variables' },
+          { value: 'static', title: 'Static classes (CSP)' },
+        ],
+        dynamicTitle: true,
+      },
+    },
+    density: {
+      description: 'Padding density of every button-like component',
+      toolbar: {
+        title: 'Density',
+        icon: 'component',
+        items: [
+          { value: 'comfortable', title: 'Comfortable' },
+          { value: 'compact',     title: 'Compact' },
+        ],
+        dynamicTitle: true,
+      },
+    },
+  },
+  initialGlobals: {
+    theme: 'default',
+    colorScheme: 'light',
+    styling: 'inline',
+    density: 'comfortable',
+  },
+
+  // Self-hosted Roboto, loaded before any story renders so screenshots never
+  // catch the fallback font.
+  loaders: [
+    async () => {
+      await loadRoboto({ display: 'block' })
+      return {}
+    },
+  ],
+
+  decorators: [
+    (Story, { globals }) => {
+      // Stories follow the page the way an app would: through data-theme on
+      // <html>, or prefers-color-scheme when it's removed.
+      const scheme = globals.colorScheme as ColorSchemePreference
+      if (scheme === 'system') delete document.documentElement.dataset.theme
+      else document.documentElement.dataset.theme = scheme
+
+      return (
+        <ThemeProvider
+          colorScheme="system"
+          theme={EXAMPLE_THEMES[globals.theme as ExampleThemeName]}
+          styling={globals.styling as StylingMode}
+          density={globals.density as ButtonDensity}
+        >
+          <Story />
+        </ThemeProvider>
+      )
+    },
+  ],
+};
+
+export default preview;
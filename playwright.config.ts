@@ -1,4 +1,25 @@
 import { defineConfig, devices } from '@playwright/test';
+import fs   from 'node:fs';
+import path from 'node:path';
+
+const chromium = {
+  ...devices['Desktop Chrome'],
+  viewport: { width: 1280, height: 800 },
+  // Keeps press ripples out of screenshots; ripple tests opt back in.
+  contextOptions: { reducedMotion: 'reduce' as const },
+};
+
+/**
+ * Device scales above 1x that some component has PNG exports at
+ * (tests/__figma__/<component>/{key}@{n}x.png). A scale gets its project once
+ * its exports are committed; until then there's nothing to compare against.
+ */
+function exportedScales(): number[] {
+  const root = path.join(process.cwd(), 'tests', '__figma__');
+  if (!fs.existsSync(root)) return [];
+  const files = fs.readdirSync(root).flatMap(dir => fs.readdirSync(path.join(root, dir)));
+  return [2, 3].filter(scale => files.some(file => file.endsWith(`@${scale}x.png`)));
+}
 
 export default defineConfig({
   testDir: './tests',
@@ -17,12 +38,20 @@ export default defineConfig({
     {
       name: 'chromium',
       use: {
-        ...devices['Desktop Chrome'],
+        ...chromium,
         // Use CSS pixels (1x) so screenshots match Figma exports (also 1x).
         deviceScaleFactor: 1,
-        viewport: { width: 1280, height: 800 },
       },
     },
+    // The Figma comparison again on high-density screens, against the @2x /
+    // @3x exports, for each scale that has been exported. Results are per
+    // project, so the report lists each scale separately.
+    ...exportedScales().map(scale => ({
+      name:      `chromium@${scale}x`,
+      testMatch: 'figma-comparison.spec.ts',
+      grep:      /@figma/,
+      use:       { ...chromium, deviceScaleFactor: scale },
+    })),
   ],
 
   // Starts Storybook automatically when running tests.
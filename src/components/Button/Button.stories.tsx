@@ -1,5 +1,18 @@
-import type { Meta, StoryObj } from '@storybook/react';
+import { useRef, type ComponentPropsWithoutRef, type CSSProperties } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
 import { Button } from './Button';
+import { RippleProvider } from '../Ripple/RippleProvider';
+import { ThemeProvider } from '../Theme/ThemeProvider';
+import type { PaletteColor } from './tokens';
+import {
+  BUTTON_COLORS, BUTTON_DENSITY_NAMES, BUTTON_MANIFEST, BUTTON_SIZE_NAMES, BUTTON_VARIANTS,
+} from './manifest';
+
+// Matrices come from the manifest, so a new color or size shows up everywhere.
+const COLORS   = BUTTON_COLORS;
+const VARIANTS = BUTTON_VARIANTS;
+
+const capitalize = (s: string) => s[0].toUpperCase() + s.slice(1);
 
 const meta = {
   title: 'Components/Button',
@@ -10,17 +23,22 @@ const meta = {
       description: {
         component:
           'Button component with design tokens extracted directly from Figma ' +
-          '(file: Buttons, node: 1:573). Supports 3 variants × 6 colors × 3 sizes, ' +
+          `(file: Buttons, node: 1:573). Supports ${VARIANTS.length} variants × ${COLORS.length} colors × ` +
+          `${BUTTON_SIZE_NAMES.length} sizes, ` +
           'with correct Enabled / Hover / Focus / Pressed / Disabled states.',
       },
     },
   },
   tags: ['autodocs'],
   argTypes: {
-    variant:  { control: 'select', options: ['contained', 'outlined', 'text'] },
-    size:     { control: 'select', options: ['small', 'medium', 'large'] },
-    color:    { control: 'select', options: ['primary', 'secondary', 'error', 'warning', 'info', 'success'] },
+    variant:  { control: 'select', options: VARIANTS },
+    size:     { control: 'select', options: [...BUTTON_SIZE_NAMES].reverse() },
+    fullWidth: { control: 'boolean' },
+    color:    { control: 'select', options: COLORS },
     disabled: { control: 'boolean' },
+    loading:  { control: 'boolean' },
+    loadingPosition: { control: 'select', options: ['start', 'center', 'end'] },
+    disableRipple: { control: 'boolean' },
     children: { control: 'text' },
     startIcon: { control: false },
     endIcon:   { control: false },
@@ -48,9 +66,9 @@ export const Variants: Story = {
   parameters: { docs: { description: { story: 'Contained has elevation. Outlined uses a 50%-opacity border. Text has no border or background.' } } },
   render: () => (
     <div style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
-      <Button variant="contained" color="primary">Contained</Button>
-      <Button variant="outlined"  color="primary">Outlined</Button>
-      <Button variant="text"      color="primary">Text</Button>
+      {VARIANTS.map(variant => (
+        <Button key={variant} variant={variant} color="primary">{capitalize(variant)}</Button>
+      ))}
     </div>
   ),
 };
@@ -58,23 +76,94 @@ export const Variants: Story = {
 // ─── Sizes ───────────────────────────────────────────────────────────────────
 
 export const Sizes: Story = {
-  parameters: { docs: { description: { story: 'Large (42px) · Medium (36px) · Small (30px). Font sizes are 15/14/13px respectively.' } } },
+  parameters: {
+    docs: {
+      description: {
+        story: BUTTON_SIZE_NAMES
+          .map(size => `${capitalize(size)} (${BUTTON_MANIFEST.sizes[size].height}, ${BUTTON_MANIFEST.sizes[size].fontSize} text)`)
+          .join(' · '),
+      },
+    },
+  },
   render: () => (
     <div style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
-      <Button size="large"  color="primary" variant="contained">Large</Button>
-      <Button size="medium" color="primary" variant="contained">Medium</Button>
-      <Button size="small"  color="primary" variant="contained">Small</Button>
+      {BUTTON_SIZE_NAMES.map(size => (
+        <Button key={size} size={size} color="primary" variant="contained">{capitalize(size)}</Button>
+      ))}
     </div>
   ),
 };
 
-// ─── Colors × Variants ───────────────────────────────────────────────────────
+// ─── Density ─────────────────────────────────────────────────────────────────
+
+export const Density: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          '`<ThemeProvider density="compact">` scales the padding of every size for data-dense screens; ' +
+          'font sizes stay. Compact heights: ' +
+          BUTTON_SIZE_NAMES.map(size => `${capitalize(size)} ${BUTTON_MANIFEST.densities.compact[size].height}`).join(' · '),
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      {BUTTON_DENSITY_NAMES.map(density => (
+        <ThemeProvider key={density} density={density}>
+          <div style={{ display: 'flex', gap: 16, alignItems: 'center' }} data-density={density}>
+            {BUTTON_SIZE_NAMES.map(size => (
+              <Button key={size} size={size} color="primary" variant="contained">{capitalize(size)}</Button>
+            ))}
+            <Button color="primary" variant="outlined">Outlined</Button>
+            <Button color="primary" variant="text">Text</Button>
+          </div>
+        </ThemeProvider>
+      ))}
+    </div>
+  ),
+};
 
-const COLORS = ['primary', 'secondary', 'error', 'warning', 'info', 'success'] as const;
-const VARIANTS = ['contained', 'outlined', 'text'] as const;
+// ─── Full width & responsive size ───────────────────────────────────────────
+
+export const FullWidth: Story = {
+  parameters: { layout: 'padded' },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Button fullWidth variant="contained">Full width</Button>
+      <Button fullWidth variant="outlined">Full width</Button>
+      <Button fullWidth variant="text">Full width</Button>
+    </div>
+  ),
+};
+
+export const Responsive: Story = {
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        story:
+          'Breakpoint maps resolved with CSS media queries (SSR-safe): large and full width on ' +
+          'phones, medium and auto width from `md` (900px) up. Resize the canvas to see it switch.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
+      <Button size={{ xs: 'large', md: 'medium' }} fullWidth={{ xs: true, md: false }}>
+        Continue
+      </Button>
+      <Button size={{ xs: 'small', sm: 'medium', lg: 'large' }} variant="outlined">
+        Grows
+      </Button>
+    </div>
+  ),
+};
+
+// ─── Colors × Variants ───────────────────────────────────────────────────────
 
 export const AllColors: Story = {
-  parameters: { docs: { description: { story: 'All 6 colors across all 3 variants.' } } },
+  parameters: { docs: { description: { story: `All ${COLORS.length} colors across all ${VARIANTS.length} variants.` } } },
   render: () => (
     <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
       {VARIANTS.map(variant => (
@@ -95,6 +184,35 @@ export const AllColors: Story = {
   ),
 };
 
+// ─── Custom colors ───────────────────────────────────────────────────────────
+
+const CUSTOM_COLORS = ['#7B1FA2', 'rgb(0, 150, 136)', 'hsl(340 82% 52%)', '#FFEB3B'] as const;
+
+export const CustomColors: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          '`color` also takes any hex / rgb() / hsl() color. The hover shade, rgba() tints and the ' +
+          'label color (white or dark, by WCAG contrast) are computed — see `src/utils/color.ts`.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      {VARIANTS.map(variant => (
+        <div key={variant} style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+          {CUSTOM_COLORS.map(color => (
+            <Button key={color} variant={variant} color={color} size="medium">
+              {color}
+            </Button>
+          ))}
+        </div>
+      ))}
+    </div>
+  ),
+};
+
 // ─── States ──────────────────────────────────────────────────────────────────
 //
 // CSS pseudo-classes handle Hover, Focus, Active natively.
@@ -130,10 +248,44 @@ export const DisabledState: Story = {
   ),
 };
 
+// ─── Loading ─────────────────────────────────────────────────────────────────
+
+export const LoadingState: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Loading state: disabled-like surface per variant, a spinner in the color\'s main token, ' +
+          '`aria-busy="true"`, and the same width as the idle button.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      {VARIANTS.map(variant => (
+        <div key={variant}>
+          <p style={{ fontFamily: 'Roboto, sans-serif', fontSize: 11, fontWeight: 500, color: '#888', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 10 }}>
+            {variant} · loading
+          </p>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+            {COLORS.map(color => (
+              <Button key={color} variant={variant} color={color} loading>
+                {color}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  ),
+};
+
 // ─── Color deep-dives ────────────────────────────────────────────────────────
 //
 // Individual stories per color so each can be checked in isolation.
 // Hover/Focus/Pressed are live — interact with them in the canvas.
+// Storybook indexes named exports statically, so a new palette color needs
+// one here too (tests/manifest.spec.ts checks every color has one).
 
 export const Primary: Story = {
   render: () => <ButtonRow color="primary" />,
@@ -159,7 +311,8 @@ export const Success: Story = {
   render: () => <ButtonRow color="success" />,
 };
 
-function ButtonRow({ color }: { color: typeof COLORS[number] }) {
+/** One row per variant in the Figma frame's sizes, like the reference images. */
+function ButtonRow({ color }: { color: PaletteColor }) {
   return (
     <div style={{ display: 'flex', flexDirection: 'column', gap: 20 }}>
       {VARIANTS.map(variant => (
@@ -167,9 +320,11 @@ function ButtonRow({ color }: { color: typeof COLORS[number] }) {
           <span style={{ fontFamily: 'Roboto, sans-serif', fontSize: 11, fontWeight: 500, color: '#888', textTransform: 'uppercase', letterSpacing: '0.08em', width: 80 }}>
             {variant}
           </span>
-          <Button variant={variant} color={color} size="large">Enabled</Button>
-          <Button variant={variant} color={color} size="medium">Medium</Button>
-          <Button variant={variant} color={color} size="small">Small</Button>
+          {BUTTON_MANIFEST.figmaSizes.map(size => (
+            <Button key={size} variant={variant} color={color} size={size}>
+              {size === 'large' ? 'Enabled' : capitalize(size)}
+            </Button>
+          ))}
           <Button variant={variant} color={color} disabled>Disabled</Button>
         </div>
       ))}
@@ -207,3 +362,122 @@ export const WithIcons: Story = {
     </div>
   ),
 };
+
+export const LoadingPositions: Story = {
+  parameters: { docs: { description: { story: '`loadingPosition` start / end replaces the matching icon; center hides the label behind the spinner.' } } },
+  render: () => (
+    <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+      <Button loading loadingPosition="start" startIcon={<SendIcon />} variant="contained">Send</Button>
+      <Button loading loadingPosition="center" variant="outlined">Send</Button>
+      <Button loading loadingPosition="end" endIcon={<SendIcon />} variant="text">Send</Button>
+    </div>
+  ),
+};
+
+// ─── Ripple ──────────────────────────────────────────────────────────────────
+
+export const Ripple: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Press feedback: the ripple grows from the pointer (or the center for Enter / Space), ' +
+          'tinted from the color token. Off under `prefers-reduced-motion`, per button with ' +
+          '`disableRipple`, or for a whole app with `<RippleProvider disabled>`.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      <div style={{ display: 'flex', gap: 12 }}>
+        <Button variant="contained" size="large">Contained</Button>
+        <Button variant="outlined"  size="large">Outlined</Button>
+        <Button variant="text"      size="large">Text</Button>
+        <Button variant="contained" size="large" disableRipple>No ripple</Button>
+      </div>
+      <RippleProvider disabled>
+        <div style={{ display: 'flex', gap: 12 }}>
+          <Button variant="contained" size="large">App-wide off</Button>
+        </div>
+      </RippleProvider>
+    </div>
+  ),
+};
+
+// ─── Native attributes & refs ────────────────────────────────────────────────
+
+function RefDemo() {
+  const targetRef = useRef<HTMLButtonElement>(null);
+  return (
+    <div style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+      <Button variant="outlined" onClick={() => targetRef.current?.focus()}>
+        Focus target
+      </Button>
+      <Button
+        ref={targetRef}
+        id="ref-target"
+        data-testid="ref-target"
+        aria-label="Ref target"
+        name="intent"
+        value="save"
+        className="custom-class"
+        style={{ borderRadius: 20, '--btn-bg': '#000000' } as CSSProperties}
+      >
+        Target
+      </Button>
+    </div>
+  );
+}
+
+export const NativeAttributes: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Native attributes pass through to the element, `ref` reaches the DOM node, and ' +
+          'user `className` / `style` are merged with the generated ones (user values win).',
+      },
+    },
+  },
+  render: () => <RefDemo />,
+};
+
+// ─── As link ──────────────────────────────────────────────────────────────────
+//
+// `href` renders an <a>; `as` accepts any element or router link component.
+
+/** Stand-in for a router link (react-router, Next.js, …) — takes `to`, not `href`. */
+const RouterLink = ({ to, ...props }: ComponentPropsWithoutRef<'a'> & { to: string }) => (
+  <a href={to} {...props} />
+);
+
+export const AsLink: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Navigation CTAs keep the button styling without nesting a <button> in an <a>. ' +
+          'Disabled links get `aria-disabled`, lose their `href` and leave the tab order.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+        <Button href="#docs" variant="contained" color="primary">Docs</Button>
+        <Button href="#docs" variant="outlined"  color="primary">Docs</Button>
+        <Button href="#docs" variant="text"      color="primary">Docs</Button>
+      </div>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+        <Button as={RouterLink} to="#home" variant="contained" color="info">Home</Button>
+        <Button as={RouterLink} to="#home" variant="outlined"  color="info">Home</Button>
+        <Button as={RouterLink} to="#home" variant="text"      color="info">Home</Button>
+      </div>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap' }}>
+        <Button href="#docs" variant="contained" color="primary" disabled>Docs</Button>
+        <Button href="#docs" variant="outlined"  color="primary" disabled>Docs</Button>
+        <Button href="#docs" variant="text"      color="primary" disabled>Docs</Button>
+      </div>
+    </div>
+  ),
+};
@@ -1,126 +1,206 @@
 import React from 'react';
+import type { ButtonColor, ButtonVariant } from './tokens';
+import type { ButtonSize } from './manifest';
+import { useButtonGroup } from '../ButtonGroup/ButtonGroupContext';
+import { responsiveClasses, type Responsive } from '../../tokens/breakpoints';
+import { useRipple } from '../Ripple/useRipple';
+import { useButtonStyle } from './useButtonStyle';
 import './Button.css';
 
-export type ButtonVariant = 'contained' | 'outlined' | 'text';
-export type ButtonSize    = 'large' | 'medium' | 'small';
-export type ButtonColor   = 'primary' | 'secondary' | 'error' | 'warning' | 'info' | 'success';
+export type { ButtonColor, ButtonSize, ButtonVariant };
+export type ButtonLoadingPosition = 'start' | 'end' | 'center';
 
-export interface ButtonProps {
+interface ButtonOwnProps {
   variant?:   ButtonVariant;
-  size?:      ButtonSize;
+  /** One size, or a mobile-first breakpoint map such as `{ xs: 'large', md: 'medium' }`. */
+  size?:      Responsive<ButtonSize>;
   color?:     ButtonColor;
+  /** Stretch to the container's width; also accepts a breakpoint map. */
+  fullWidth?: Responsive<boolean>;
   disabled?:  boolean;
+  /** Shows a progress indicator, blocks clicks and sets `aria-busy`. */
+  loading?:   boolean;
+  /**
+   * Where the indicator goes while `loading`: in place of `startIcon` / `endIcon`,
+   * or centered over the (hidden) label. Falls back to `center` when the icon
+   * for the requested side is missing, so the button never changes width.
+   */
+  loadingPosition?: ButtonLoadingPosition;
+  /** Turns off the press ripple for this button (see also `RippleProvider`). */
+  disableRipple?: boolean;
   startIcon?: React.ReactNode;
   endIcon?:   React.ReactNode;
   children?:  React.ReactNode;
-  onClick?:   React.MouseEventHandler<HTMLButtonElement>;
-  type?:      'button' | 'submit' | 'reset';
 }
 
-// ─── Design tokens — values extracted directly from Figma ────────────────────
-//
-// Source: file 0SGlWXx4nQMnLBUyMU7GZt, node 1:1068 (<Button> COMPONENT_SET)
-// Each entry:  { main, hover, rgb }
-//   main  – enabled background (contained) / text+border (outlined, text)
-//   hover – hovered background (contained) / hover tint base (outlined, text)
-//   rgb   – R,G,B channels used to build rgba() tints for outlined/text states
-
-const COLOR_TOKENS: Record<ButtonColor, { main: string; hover: string; rgb: string }> = {
-  primary:   { main: '#265DA5', hover: '#003476', rgb: '38,93,165'   },
-  secondary: { main: '#FFA100', hover: '#C67200', rgb: '255,161,0'   },
-  error:     { main: '#FF3B30', hover: '#C30005', rgb: '255,59,48'   },
-  warning:   { main: '#FFA100', hover: '#C67200', rgb: '255,161,0'   },
-  info:      { main: '#007AFF', hover: '#004FCB', rgb: '0,122,255'   },
-  success:   { main: '#34C759', hover: '#00952B', rgb: '52,199,89'   },
-};
-
-// ─── CSS variable builder ─────────────────────────────────────────────────────
-
-type CSSVars = Record<string, string>;
-
-function buildVars(
-  variant:  ButtonVariant,
-  color:    ButtonColor,
-  disabled: boolean,
-): CSSVars {
-  if (disabled) {
-    return {
-      '--btn-disabled-bg':     variant === 'contained' ? 'rgba(0,0,0,0.12)' : 'transparent',
-      '--btn-disabled-border': variant === 'outlined'  ? 'rgba(0,0,0,0.12)' : 'transparent',
-      // text color is hardcoded in CSS as rgba(0,0,0,0.38)
-    };
-  }
-
-  const { main, hover, rgb } = COLOR_TOKENS[color];
+/**
+ * Props for a Button rendered as element/component `C` (default `<button>`).
+ * The design-system props are fixed; everything else — native attributes,
+ * event handlers, `ref`, `className`, `style` — is inferred from `C`,
+ * e.g. `<Button as={Link} to="/home">` accepts the router link's `to` prop.
+ */
+export type ButtonProps<C extends React.ElementType = 'button'> =
+  ButtonOwnProps &
+  { as?: C } &
+  Omit<React.ComponentPropsWithRef<C>, keyof ButtonOwnProps | 'as'>;
 
-  if (variant === 'contained') {
-    return {
-      '--btn-bg':         main,
-      '--btn-hover-bg':   hover,
-      '--btn-active-bg':  hover,
-      '--btn-color':      '#ffffff',
-      '--btn-focus-ring': main,
-    };
-  }
+// ─── Component ────────────────────────────────────────────────────────────────
 
-  // outlined & text share the same tint logic for hover/active
-  const hoverBg  = `rgba(${rgb}, 0.04)`;
-  const activeBg = `rgba(${rgb}, 0.12)`;
-
-  if (variant === 'outlined') {
-    return {
-      '--btn-bg':           'transparent',
-      '--btn-hover-bg':     hoverBg,
-      '--btn-active-bg':    activeBg,
-      '--btn-color':        main,
-      '--btn-border':       `rgba(${rgb}, 0.5)`,
-      '--btn-hover-border': `rgba(${rgb}, 0.5)`,
-      '--btn-focus-ring':   main,
-    };
-  }
+/** Click handler for disabled links and loading buttons: nothing navigates or submits. */
+function swallowClick(event: React.MouseEvent) {
+  event.preventDefault();
+  event.stopPropagation();
+}
 
-  // text
-  return {
-    '--btn-bg':         'transparent',
-    '--btn-hover-bg':   hoverBg,
-    '--btn-active-bg':  activeBg,
-    '--btn-color':      main,
-    '--btn-focus-ring': main,
-  };
+/** Indeterminate spinner drawn in the color's `main` token. */
+function LoadingIndicator() {
+  return (
+    <svg className="btn__indicator" viewBox="22 22 44 44" aria-hidden="true">
+      <circle cx="44" cy="44" r="20.2" fill="none" strokeWidth="3.6" />
+    </svg>
+  );
 }
 
-// ─── Component ────────────────────────────────────────────────────────────────
+/** Keeps an icon's box in the layout but invisible, with the indicator on top. */
+function LoadingSlot({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="btn__loading-slot">
+      <span className="btn__loading-hidden">{children}</span>
+      <LoadingIndicator />
+    </span>
+  );
+}
 
+/**
+ * Renders a native `<button>` by default, an `<a>` when `href` is given, or any
+ * element / component passed through `as` (e.g. a router `Link`). All of them
+ * share the same variant/size/color classes and CSS variables.
+ *
+ * Disabled non-button elements can't use the `disabled` attribute, so they get
+ * `aria-disabled`, drop out of the tab order and have their navigation blocked.
+ * A loading button stays focusable but ignores clicks until `loading` clears.
+ *
+ * Presses show a ripple tinted from the color token; it is skipped under
+ * `prefers-reduced-motion` and can be turned off per button (`disableRipple`)
+ * or per app (`RippleProvider`).
+ *
+ * Inside a ButtonGroup, `variant` / `size` / `color` / `disabled` default to
+ * the group's values.
+ *
+ * `ref` (a plain prop in React 19) lands on the rendered DOM element. A user
+ * `className` is appended to the `btn` classes and a user `style` is spread
+ * after the generated CSS variables, so user values win. Under
+ * `<ThemeProvider styling="static">` the variables come from classes instead,
+ * defined in Button.static.css, which that app imports itself.
+ */
+export function Button(props: ButtonProps<'a'> & { as?: undefined; href: string }): React.JSX.Element;
+export function Button<C extends React.ElementType = 'button'>(props: ButtonProps<C>): React.JSX.Element;
 export function Button({
-  variant  = 'contained',
-  size     = 'medium',
-  color    = 'primary',
-  disabled = false,
+  as,
+  variant:  variantProp,
+  size:     sizeProp,
+  color:    colorProp,
+  fullWidth = false,
+  disabled: disabledProp,
+  loading  = false,
+  loadingPosition = 'center',
+  disableRipple = false,
   startIcon,
   endIcon,
   children,
-  onClick,
-  type = 'button',
-}: ButtonProps) {
-  const cssVars = buildVars(variant, color, disabled);
+  className: userClassName,
+  style:     userStyle,
+  ...rest
+}: ButtonProps<React.ElementType>) {
+  const group    = useButtonGroup();
+  const variant  = variantProp  ?? group.variant  ?? 'contained';
+  const size     = sizeProp     ?? group.size     ?? 'medium';
+  const color    = colorProp    ?? group.color    ?? 'primary';
+  const disabled = disabledProp ?? group.disabled ?? false;
+
+  const Component: React.ElementType = as ?? (rest.href !== undefined ? 'a' : 'button');
+  const { classes: styleClasses, style } = useButtonStyle(variant, color, disabled, false, userStyle);
+  const { ripples, handlers: rippleHandlers } = useRipple(disableRipple || disabled || loading);
+
+  // Auto width is the default, so only breakpoints that switch back need a class.
+  const widthClasses = responsiveClasses('btn', fullWidth, false, full => (full ? 'full-width' : 'auto-width'))
+    .filter(c => c !== 'btn--auto-width');
 
   const className = [
     'btn',
     `btn--${variant}`,
-    `btn--${size}`,
-  ].join(' ');
+    ...styleClasses,
+    ...responsiveClasses('btn', size, 'medium'),
+    ...widthClasses,
+    loading && !disabled && 'btn--loading',
+    userClassName,
+  ].filter(Boolean).join(' ');
+
+  let elementProps: Record<string, unknown>;
+  if (Component === 'button') {
+    elementProps = { type: rest.type ?? 'button', disabled };
+  } else if (disabled) {
+    // An <a> without href loses its implicit role, so restore it explicitly.
+    elementProps = {
+      href:            undefined,
+      role:            rest.role ?? (Component === 'a' ? 'link' : undefined),
+      'aria-disabled': true,
+      tabIndex:        -1,
+      onClick:         swallowClick,
+    };
+  } else {
+    elementProps = {};
+  }
+
+  // The ripple listens alongside any user handlers rather than replacing them.
+  for (const [name, handler] of Object.entries(rippleHandlers)) {
+    const user = rest[name] as ((event: never) => void) | undefined;
+    elementProps[name] = (event: never) => { user?.(event); handler(event); };
+  }
+
+  if (loading && !disabled) {
+    elementProps['aria-busy'] = true;
+    elementProps.onClick      = swallowClick;
+  }
+
+  // Resolve where the indicator goes; the slot it replaces stays in the layout
+  // (invisible) underneath it, which keeps the measured width unchanged.
+  const indicatorAt: ButtonLoadingPosition | null = !loading || disabled ? null
+    : loadingPosition === 'start' && startIcon != null ? 'start'
+    : loadingPosition === 'end'   && endIcon   != null ? 'end'
+    : 'center';
+
+  let content: React.ReactNode;
+  if (indicatorAt === 'center') {
+    content = (
+      <>
+        <span className="btn__content btn__loading-hidden">
+          {startIcon}
+          {children}
+          {endIcon}
+        </span>
+        <LoadingIndicator />
+      </>
+    );
+  } else {
+    content = (
+      <>
+        {indicatorAt === 'start' ? <LoadingSlot>{startIcon}</LoadingSlot> : startIcon}
+        {children}
+        {indicatorAt === 'end'   ? <LoadingSlot>{endIcon}</LoadingSlot>   : endIcon}
+      </>
+    );
+  }
 
   return (
-    <button
-      type={type}
-      disabled={disabled}
-      onClick={onClick}
+    <Component
+      {...rest}
+      {...elementProps}
       className={className}
-      style={cssVars as React.CSSProperties}
+      style={style}
     >
-      {startIcon}
-      {children}
-      {endIcon}
-    </button>
+      {content}
+      {ripples}
+    </Component>
   );
 }
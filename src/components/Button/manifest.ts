@@ -0,0 +1,154 @@
+// ─── Button manifest ─────────────────────────────────────────────────────────
+//
+// Machine-readable description of the Button matrix — variants, colors, sizes
+// and the computed styles each combination should show per state — derived
+// from the tokens, so nothing here is maintained by hand. The Storybook
+// matrix stories and the Playwright suites iterate it: a color added to
+// COLOR_TOKENS or a size added to BUTTON_SIZES gets rendering, CSS-assertion
+// and Figma-comparison coverage without touching the tests (Figma comparison
+// only for `figmaSizes`, the sizes the file draws).
+//
+// Expected values are in getComputedStyle form (`rgb(38, 93, 165)`), worked
+// out from `buildVars` and the fallbacks in Button.css.
+
+import { toComputedColor } from '../../utils/color';
+import {
+  BUTTON_DENSITIES, BUTTON_SIZES, densityMetrics, FIGMA_BUTTON_SIZES,
+  type ButtonDensity, type ButtonSize,
+} from '../../tokens/sizes';
+import {
+  buildVars, DEFAULT_THEME,
+  type ButtonVariant, type CSSVars, type PaletteColor, type Theme,
+} from './tokens';
+
+export type { ButtonDensity, ButtonSize };
+
+export const BUTTON_VARIANTS = ['contained', 'outlined', 'text'] as const satisfies readonly ButtonVariant[];
+export const BUTTON_COLORS   = Object.keys(DEFAULT_THEME.palette) as PaletteColor[];
+export const BUTTON_SIZE_NAMES = Object.keys(BUTTON_SIZES) as ButtonSize[];
+export const BUTTON_DENSITY_NAMES = Object.keys(BUTTON_DENSITIES) as ButtonDensity[];
+
+export const BUTTON_STATES = ['enabled', 'hover', 'active', 'disabled'] as const;
+export type ButtonState = typeof BUTTON_STATES[number];
+
+/** Computed `background-color`, `color` and `border-top-color`. */
+export interface StateStyles {
+  backgroundColor: string;
+  color:           string;
+  borderColor:     string;
+}
+
+export interface ButtonCombination {
+  variant:   ButtonVariant;
+  color:     PaletteColor;
+  states:    Record<ButtonState, StateStyles>;
+  /** `outline-color` when focus-visible. */
+  focusRing: string;
+  /** Loading spinner color. */
+  indicator: string;
+}
+
+export interface SizeStyles {
+  /** Rendered height, border included. */
+  height:     string;
+  fontSize:   string;
+  lineHeight: string;
+  iconSize:   string;
+}
+
+export interface ButtonManifest {
+  variants:     readonly ButtonVariant[];
+  colors:       readonly PaletteColor[];
+  /** Comfortable (default) density. */
+  sizes:        Record<ButtonSize, SizeStyles>;
+  densities:    Record<ButtonDensity, Record<ButtonSize, SizeStyles>>;
+  /** The sizes drawn in the Figma file. */
+  figmaSizes:   readonly ButtonSize[];
+  typography: {
+    fontWeight:    string;
+    textTransform: string;
+    borderRadius:  string;
+  };
+  combinations: ButtonCombination[];
+}
+
+// ─── Derivation ───────────────────────────────────────────────────────────────
+
+function computed(value: string): string {
+  const color = toComputedColor(value);
+  if (!color) throw new Error(`Button manifest: can't compute "${value}"`);
+  return color;
+}
+
+/** Mirrors the state rules in Button.css, fallbacks included. */
+function stateStyles(enabled: CSSVars, disabled: CSSVars): Record<ButtonState, StateStyles> {
+  const border      = enabled['--btn-border'] ?? 'transparent';
+  const hoverBorder = enabled['--btn-hover-border'] ?? border;
+  const hoverBg     = enabled['--btn-hover-bg'] ?? 'transparent';
+  return {
+    enabled: {
+      backgroundColor: computed(enabled['--btn-bg'] ?? 'transparent'),
+      color:           computed(enabled['--btn-color']),
+      borderColor:     computed(border),
+    },
+    hover: {
+      backgroundColor: computed(hoverBg),
+      color:           computed(enabled['--btn-color']),
+      borderColor:     computed(hoverBorder),
+    },
+    active: {
+      backgroundColor: computed(enabled['--btn-active-bg'] ?? hoverBg),
+      color:           computed(enabled['--btn-color']),
+      borderColor:     computed(hoverBorder),
+    },
+    disabled: {
+      backgroundColor: computed(disabled['--btn-disabled-bg']),
+      color:           computed(disabled['--btn-disabled-color']),
+      borderColor:     computed(disabled['--btn-disabled-border']),
+    },
+  };
+}
+
+function sizeStyles(density: ButtonDensity): Record<ButtonSize, SizeStyles> {
+  const px = (n: number) => `${n}px`;
+  return Object.fromEntries(BUTTON_SIZE_NAMES.map(size => {
+    const m = densityMetrics(size, density);
+    return [size, {
+      height:     px(m.height),
+      fontSize:   px(m.fontSize),
+      lineHeight: px(m.lineHeight),
+      iconSize:   px(m.iconSize),
+    }];
+  })) as Record<ButtonSize, SizeStyles>;
+}
+
+export function buildButtonManifest(theme: Theme = DEFAULT_THEME): ButtonManifest {
+  const densities = Object.fromEntries(
+    BUTTON_DENSITY_NAMES.map(density => [density, sizeStyles(density)]),
+  ) as Record<ButtonDensity, Record<ButtonSize, SizeStyles>>;
+  return {
+    variants:   BUTTON_VARIANTS,
+    colors:     BUTTON_COLORS,
+    sizes:      densities.comfortable,
+    densities,
+    figmaSizes: FIGMA_BUTTON_SIZES,
+    typography: {
+      fontWeight:    String(theme.typography.fontWeight),
+      textTransform: theme.typography.textTransform,
+      borderRadius:  theme.shape.borderRadius,
+    },
+    combinations: BUTTON_VARIANTS.flatMap(variant => BUTTON_COLORS.map(color => {
+      const enabled = buildVars(theme, variant, color, false);
+      return {
+        variant,
+        color,
+        states:    stateStyles(enabled, buildVars(theme, variant, color, true)),
+        focusRing: computed(enabled['--btn-focus-ring']),
+        indicator: computed(enabled['--btn-indicator']),
+      };
+    })),
+  };
+}
+
+/** The manifest of the default (Figma) theme. */
+export const BUTTON_MANIFEST = buildButtonManifest();
@@ -0,0 +1,442 @@
+// Design tokens and the CSS-variable pipeline shared by every button-like
+// component (Button, IconButton, …). Components import from here; the token
+// values themselves are not part of the public surface.
+
+import {
+  AA_CONTRAST, composite, contrastRatio, darken, DARK_TEXT, parseColor, pickContrastText, toHex, toRgbChannels,
+  type RGB,
+} from '../../utils/color';
+import { FIGMA_TOKENS } from '../../tokens/figma.generated';
+
+export type ButtonVariant = 'contained' | 'outlined' | 'text';
+export type PaletteColor  = 'primary' | 'secondary' | 'error' | 'warning' | 'info' | 'success';
+
+/**
+ * A palette name, or any CSS hex / rgb() / hsl() color whose tokens are then
+ * computed (see `resolveColorTokens`). `string & {}` keeps autocomplete for
+ * the palette names.
+ */
+export type ButtonColor = PaletteColor | (string & {});
+
+// ─── Design tokens — synced from Figma ───────────────────────────────────────
+//
+// Source: file 0SGlWXx4nQMnLBUyMU7GZt variables and styles, written to
+// src/tokens/figma.generated.ts by `npm run sync-figma-tokens`.
+// Each entry:  { main, hover, rgb, contrastText }
+//   main         – enabled background (contained) / text+border (outlined, text)
+//   hover        – hovered background (contained) / hover tint base (outlined, text)
+//   rgb          – R,G,B channels used to build rgba() tints for outlined/text states
+//   contrastText – label color on a `main` background (contained)
+//
+// Figma's secondary, warning, success, error and info mains are too light for
+// a white label (or as a label on white): fromFigma darkens those until the
+// label reaches AA, and takes the hover one `darken` step below the result,
+// the rule the Figma hovers follow. Primary passes and is used as is.
+
+export interface ColorTokens {
+  main:         string;
+  hover:        string;
+  rgb:          string;
+  contrastText: string;
+}
+
+const WHITE: RGB = { r: 255, g: 255, b: 255 };
+
+/** Strongest tint outlined / text labels sit on in the light scheme (selected + pressed). */
+const LIGHT_MAX_TINT = 0.2;
+
+/** The lower of white on `main` and `main` on its strongest tint over white. */
+function lightLabelContrast(main: RGB): number {
+  return Math.min(contrastRatio(main, WHITE), contrastRatio(main, composite(main, LIGHT_MAX_TINT, WHITE)));
+}
+
+function fromFigma({ main, hover, contrastText }: { main: string; hover: string; contrastText: string }): ColorTokens {
+  const figmaMain = parseColor(main)!;
+  if (lightLabelContrast(figmaMain) >= AA_CONTRAST) {
+    return { main, hover, rgb: toRgbChannels(figmaMain), contrastText };
+  }
+  // Twentieth-of-a-step increments keep the result as close to Figma as AA
+  // allows; each candidate is rounded to the hex it would be published as.
+  const candidate = (steps: number) => parseColor(toHex(darken(figmaMain, steps)))!;
+  let steps = 0;
+  while (lightLabelContrast(candidate(steps)) < AA_CONTRAST) steps += 0.05;
+  const accessible = candidate(steps);
+  return {
+    main:         toHex(accessible),
+    hover:        toHex(darken(accessible)),
+    rgb:          toRgbChannels(accessible),
+    contrastText,
+  };
+}
+
+const { color, radius, opacity, shadow, typography } = FIGMA_TOKENS;
+
+export const COLOR_TOKENS: Record<PaletteColor, ColorTokens> = {
+  primary:   fromFigma(color.primary),
+  secondary: fromFigma(color.secondary),
+  error:     fromFigma(color.error),
+  warning:   fromFigma(color.warning),
+  info:      fromFigma(color.info),
+  success:   fromFigma(color.success),
+};
+
+// Dark scheme: each main is one Lab `lighten` step above the Figma main so it
+// reads on a dark surface, and hovers half a step lighter still, so the dark
+// label keeps AA contrast (stepping back down to the Figma main would drop
+// primary to 3:1). All of them take dark label text.
+export const DARK_COLOR_TOKENS: Record<PaletteColor, ColorTokens> = {
+  primary:   { main: '#608AD7', hover: '#7AA1F1', rgb: '96,138,215',  contrastText: 'rgba(0, 0, 0, 0.87)' },
+  secondary: { main: '#FFD249', hover: '#FFEB62', rgb: '255,210,73',  contrastText: 'rgba(0, 0, 0, 0.87)' },
+  error:     { main: '#FF745B', hover: '#FF8D71', rgb: '255,116,91',  contrastText: 'rgba(0, 0, 0, 0.87)' },
+  warning:   { main: '#FFD249', hover: '#FFEB62', rgb: '255,210,73',  contrastText: 'rgba(0, 0, 0, 0.87)' },
+  info:      { main: '#69A8FF', hover: '#85C0FF', rgb: '105,168,255', contrastText: 'rgba(0, 0, 0, 0.87)' },
+  success:   { main: '#71FB88', hover: '#8DFFA0', rgb: '113,251,136', contrastText: 'rgba(0, 0, 0, 0.87)' },
+};
+
+export type Palette = Record<PaletteColor, ColorTokens>;
+
+// ─── Theme ───────────────────────────────────────────────────────────────────
+//
+// Everything a ThemeProvider can override. DEFAULT_THEME is the Figma design
+// (light scheme, palette AA-adjusted as above), DARK_THEME its dark
+// counterpart; components read the active theme with `useTheme()` and hand it
+// to buildVars.
+
+export type ColorScheme = 'light' | 'dark';
+
+export interface Theme {
+  colorScheme: ColorScheme;
+  palette:     Palette;
+  /** rgba() alpha of the outlined / text tints built from a color's channels. */
+  tint: {
+    hover:          number;
+    active:         number;
+    selected:       number;
+    selectedHover:  number;
+    selectedActive: number;
+    border:         number;
+    ripple:         number;
+  };
+  /** Disabled (and loading) surface, shared by every color. */
+  disabled: {
+    background: string;
+    border:     string;
+    text:       string;
+  };
+  /** Popup surface — the MenuButton / SplitButton menu — and its text. */
+  surface: {
+    background: string;
+    text:       string;
+  };
+  shape: {
+    borderRadius: string;
+  };
+  /** Contained box-shadows at rest, hovered and pressed. */
+  elevation: {
+    resting: string;
+    hover:   string;
+    active:  string;
+  };
+  typography: {
+    fontFamily:    string;
+    fontWeight:    number;
+    letterSpacing: string;
+    textTransform: 'uppercase' | 'none' | 'capitalize' | 'lowercase';
+  };
+}
+
+const buttonText = typography.button.medium;
+
+export const DEFAULT_THEME: Theme = {
+  colorScheme: 'light',
+  palette:     COLOR_TOKENS,
+  tint: {
+    hover:          opacity.hover,
+    active:         0.12,
+    selected:       0.12,
+    selectedHover:  0.16,
+    selectedActive: LIGHT_MAX_TINT,
+    border:         0.5,
+    ripple:         0.3,
+  },
+  disabled: {
+    background: color.disabled.background,
+    border:     color.disabled.border,
+    text:       color.disabled.text,
+  },
+  surface: {
+    background: color.background.default,
+    text:       DARK_TEXT,
+  },
+  shape: {
+    borderRadius: radius.button,
+  },
+  elevation: {
+    resting: shadow.elevation['2'],
+    hover:   shadow.elevation['4'],
+    active:  shadow.elevation['8'],
+  },
+  typography: {
+    fontFamily:    `${buttonText.fontFamily}, sans-serif`,
+    fontWeight:    buttonText.fontWeight,
+    // Figma tracks in px per size; one em value keeps the same ratio at every size.
+    letterSpacing: `${+(parseFloat(buttonText.letterSpacing) / parseFloat(buttonText.fontSize)).toFixed(4)}em`,
+    textTransform: buttonText.textTransform,
+  },
+};
+
+/**
+ * For dark surfaces (~#121212): lighter mains, stronger tints so outlined and
+ * text states stay visible, white-based disabled colors and deeper shadows.
+ */
+export const DARK_THEME: Theme = {
+  ...DEFAULT_THEME,
+  colorScheme: 'dark',
+  palette:     DARK_COLOR_TOKENS,
+  tint: {
+    hover:          0.08,
+    // Primary's label drops under 4.5:1 on a tint above 0.15 (0.16 measured
+    // 4.47:1), so active and the selected tints stay at or below 0.14.
+    active:         0.12,
+    selected:       0.1,
+    selectedHover:  0.12,
+    selectedActive: 0.14,
+    border:         0.5,
+    ripple:         0.35,
+  },
+  disabled: {
+    background: 'rgba(255,255,255,0.12)',
+    border:     'rgba(255,255,255,0.12)',
+    text:       'rgba(255, 255, 255, 0.3)',
+  },
+  // The page under a 12% white overlay, Material's tint for an 8dp surface.
+  surface: {
+    background: '#2E2E2E',
+    text:       '#FFFFFF',
+  },
+  elevation: {
+    resting: '0px 3px 1px -2px rgba(0,0,0,0.5), 0px 2px 2px 0px rgba(0,0,0,0.36), 0px 1px 5px 0px rgba(0,0,0,0.3)',
+    hover:   '0px 2px 4px -1px rgba(0,0,0,0.5), 0px 4px 5px 0px rgba(0,0,0,0.36), 0px 1px 10px 0px rgba(0,0,0,0.3)',
+    active:  '0px 5px 5px -3px rgba(0,0,0,0.5), 0px 8px 10px 1px rgba(0,0,0,0.36), 0px 3px 14px 2px rgba(0,0,0,0.3)',
+  },
+};
+
+export function isPaletteColor(color: ButtonColor): color is PaletteColor {
+  return Object.hasOwn(COLOR_TOKENS, color);
+}
+
+/** How many custom colors the caches below keep; a color picker can feed thousands. */
+const COLOR_CACHE_LIMIT = 256;
+
+/**
+ * Custom colors seen so far, null for those that don't parse; a page of
+ * buttons usually repeats a few. Past the limit the least recently used goes.
+ */
+const derivedTokens = new Map<string, ColorTokens | null>();
+
+/** Warnings already logged, so a bad color warns once rather than per render. */
+const warned = new Set<string>();
+
+/** Logs `message` the first time it comes up (within the cache limit). */
+export function warnOnce(message: string): void {
+  if (warned.has(message)) return;
+  if (warned.size >= COLOR_CACHE_LIMIT) warned.delete(warned.values().next().value!);
+  warned.add(message);
+  console.warn(message);
+}
+
+/**
+ * Palette names return their tokens from `palette` (the theme's, or the Figma
+ * defaults). Any other color gets the same shape computed by utils/color:
+ * hover = one Lab `darken` step (the rule the Figma hovers follow), tints from
+ * its channels, and white or dark label text by WCAG contrast. Unparseable
+ * colors fall back to the palette's `primary`.
+ */
+export function resolveColorTokens(color: ButtonColor, palette: Palette = COLOR_TOKENS): ColorTokens {
+  if (isPaletteColor(color)) return palette[color];
+
+  const tokens = deriveColorTokens(color);
+  if (!tokens) {
+    warnOnce(`[Button] Unsupported color "${color}" — use a palette name, hex, rgb() or hsl(). Falling back to primary.`);
+    return palette.primary;
+  }
+  return tokens;
+}
+
+/** Computed tokens for a hex / rgb() / hsl() color, or null if it can't be parsed. */
+export function deriveColorTokens(color: string): ColorTokens | null {
+  const cached = derivedTokens.get(color);
+  if (cached !== undefined) {
+    // Re-insert so the map's order is least recently used first.
+    derivedTokens.delete(color);
+    derivedTokens.set(color, cached);
+    return cached;
+  }
+
+  const rgb = parseColor(color);
+  const tokens = rgb && {
+    main:         toHex(rgb),
+    hover:        toHex(darken(rgb)),
+    rgb:          toRgbChannels(rgb),
+    contrastText: pickContrastText(rgb),
+  };
+  if (derivedTokens.size >= COLOR_CACHE_LIMIT) derivedTokens.delete(derivedTokens.keys().next().value!);
+  derivedTokens.set(color, tokens);
+  return tokens;
+}
+
+// ─── CSS variable builder ─────────────────────────────────────────────────────
+
+export type CSSVars = Record<string, string>;
+
+/** Theme-wide values; the same for every color, so cached per theme object. */
+const surfaceCache = new WeakMap<Theme, Record<ButtonVariant, CSSVars>>();
+
+function surfaceVars(theme: Theme, variant: ButtonVariant): CSSVars {
+  let byVariant = surfaceCache.get(theme);
+  if (!byVariant) {
+    const { disabled, shape, elevation, typography } = theme;
+    const shared = {
+      '--btn-radius':         shape.borderRadius,
+      '--btn-font-family':    typography.fontFamily,
+      '--btn-font-weight':    String(typography.fontWeight),
+      '--btn-letter-spacing': typography.letterSpacing,
+      '--btn-text-transform': typography.textTransform,
+      '--btn-disabled-color': disabled.text,
+    };
+    // The disabled surface is also the loading surface, so it's always set.
+    byVariant = {
+      contained: {
+        ...shared,
+        '--btn-disabled-bg':      disabled.background,
+        '--btn-disabled-border':  'transparent',
+        '--btn-elevation':        elevation.resting,
+        '--btn-elevation-hover':  elevation.hover,
+        '--btn-elevation-active': elevation.active,
+      },
+      outlined:  { ...shared, '--btn-disabled-bg': 'transparent', '--btn-disabled-border': disabled.border },
+      text:      { ...shared, '--btn-disabled-bg': 'transparent', '--btn-disabled-border': 'transparent' },
+    };
+    surfaceCache.set(theme, byVariant);
+  }
+  return byVariant[variant];
+}
+
+/**
+ * `selected` is the pressed-in state of toggle buttons: contained sits on its
+ * hover shade, outlined / text keep the `tint.selected` tint (12% in the light
+ * scheme) and outlined gets a solid border.
+ * Disabled wins over selected.
+ */
+export function buildVars(
+  theme:    Theme,
+  variant:  ButtonVariant,
+  color:    ButtonColor,
+  disabled: boolean,
+  selected = false,
+): CSSVars {
+  const surface = surfaceVars(theme, variant);
+  if (disabled) return surface;
+
+  const { main, hover, rgb, contrastText } = resolveColorTokens(color, theme.palette);
+
+  if (variant === 'contained') {
+    return {
+      ...surface,
+      '--btn-bg':         selected ? hover : main,
+      '--btn-hover-bg':   hover,
+      '--btn-active-bg':  hover,
+      '--btn-color':      contrastText,
+      '--btn-focus-ring': main,
+      '--btn-indicator':  main,
+      // A tint of main would vanish on a main background; ripple in the label color.
+      '--btn-ripple':     `color-mix(in srgb, ${contrastText} 35%, transparent)`,
+    };
+  }
+
+  // outlined & text share the same tint logic for hover/active
+  const { tint } = theme;
+  const bg       = selected ? `rgba(${rgb}, ${tint.selected})`       : 'transparent';
+  const hoverBg  = selected ? `rgba(${rgb}, ${tint.selectedHover})`  : `rgba(${rgb}, ${tint.hover})`;
+  const activeBg = selected ? `rgba(${rgb}, ${tint.selectedActive})` : `rgba(${rgb}, ${tint.active})`;
+  const border   = selected ? main : `rgba(${rgb}, ${tint.border})`;
+
+  if (variant === 'outlined') {
+    return {
+      ...surface,
+      '--btn-bg':           bg,
+      '--btn-hover-bg':     hoverBg,
+      '--btn-active-bg':    activeBg,
+      '--btn-color':        main,
+      '--btn-border':       border,
+      '--btn-hover-border': border,
+      '--btn-focus-ring':   main,
+      '--btn-indicator':    main,
+      '--btn-ripple':       `rgba(${rgb}, ${tint.ripple})`,
+    };
+  }
+
+  // text
+  return {
+    ...surface,
+    '--btn-bg':         bg,
+    '--btn-hover-bg':   hoverBg,
+    '--btn-active-bg':  activeBg,
+    '--btn-color':      main,
+    '--btn-focus-ring': main,
+    '--btn-indicator':  main,
+    '--btn-ripple':     `rgba(${rgb}, ${tint.ripple})`,
+  };
+}
+
+/** ButtonGroup's outline radius and shadow, taken from the theme. */
+export function buildGroupVars(theme: Theme): CSSVars {
+  return {
+    '--btn-group-radius':    theme.shape.borderRadius,
+    '--btn-group-elevation': theme.elevation.resting,
+  };
+}
+
+/** The menu's surface, text and shadow, taken from the theme. */
+export function buildMenuVars(theme: Theme): CSSVars {
+  return {
+    '--menu-bg':             theme.surface.background,
+    '--menu-color':          theme.surface.text,
+    '--menu-disabled-color': theme.disabled.text,
+    '--menu-elevation':      theme.elevation.active,
+  };
+}
+
+// ─── Static styling ───────────────────────────────────────────────────────────
+//
+// Under `<ThemeProvider styling="static">` components emit class names instead
+// of an inline `style`, and Button.static.css — the buildVars output for every
+// built-in theme × variant × palette color, generated by tests/build-tokens.ts —
+// supplies the variables. Only what the stylesheet covers can go static:
+// theme overrides and custom colors still get inline variables.
+
+export type StylingMode = 'inline' | 'static';
+
+/** The themes Button.static.css has rules for, by scheme. */
+export const STATIC_THEMES: Record<ColorScheme, Theme> = { light: DEFAULT_THEME, dark: DARK_THEME };
+
+/** True when `theme` is a built-in theme, not one merged from overrides. */
+export function isStaticTheme(theme: Theme): boolean {
+  return STATIC_THEMES[theme.colorScheme] === theme;
+}
+
+/**
+ * Classes that stand in for `buildVars(theme, variant, color, …, selected)`,
+ * e.g. `btn--light btn--contained-primary`, or null when the stylesheet has no
+ * rule for the combination. Disabled needs no class: the stylesheet skips the
+ * color rules on :disabled / aria-disabled, as buildVars does.
+ */
+export function staticClasses(
+  theme:   Theme,
+  variant: ButtonVariant,
+  color:   ButtonColor,
+  selected = false,
+): string[] | null {
+  if (!isStaticTheme(theme) || !isPaletteColor(color)) return null;
+  return [`btn--${theme.colorScheme}`, `btn--${variant}-${color}`, ...(selected ? ['btn--selected'] : [])];
+}
@@ -0,0 +1,32 @@
+import type React from 'react';
+import { buildVars, staticClasses, type ButtonColor, type ButtonVariant } from './tokens';
+import { useDensity, useStyling, useTheme } from '../Theme/ThemeContext';
+
+export interface ButtonStyle {
+  /** Static-mode and density classes to add. */
+  classes: string[];
+  /** The element's `style`: generated variables (inline mode), then the user's. */
+  style:   React.CSSProperties | undefined;
+}
+
+/**
+ * Colors for Button, IconButton and ToggleButton: the `buildVars` output as
+ * an inline style, or — under `<ThemeProvider styling="static">` and when
+ * Button.static.css covers the theme and color — classes, leaving `style` to
+ * the user alone. Adds `btn--compact` under `<ThemeProvider density="compact">`.
+ */
+export function useButtonStyle(
+  variant:   ButtonVariant,
+  color:     ButtonColor,
+  disabled:  boolean,
+  selected:  boolean,
+  userStyle: React.CSSProperties | undefined,
+): ButtonStyle {
+  const theme   = useTheme();
+  const density = useDensity() === 'compact' ? ['btn--compact'] : [];
+  const classes = useStyling() === 'static' ? staticClasses(theme, variant, color, selected) : null;
+  if (classes) return { classes: [...classes, ...density], style: userStyle };
+
+  const cssVars = buildVars(theme, variant, color, disabled, selected);
+  return { classes: density, style: { ...cssVars, ...userStyle } as React.CSSProperties };
+}
@@ -0,0 +1,137 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { Button } from '../Button/Button';
+import { ButtonGroup } from './ButtonGroup';
+import { BUTTON_COLORS, BUTTON_SIZE_NAMES, BUTTON_VARIANTS } from '../Button/manifest';
+
+const meta = {
+  title: 'Components/ButtonGroup',
+  component: ButtonGroup,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component:
+          'Joins Buttons into one control. `variant`, `size`, `color` and `disabled` are passed to ' +
+          'every child Button (a child\'s own prop wins). Borders and radii merge at the joins.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    variant:     { control: 'select', options: ['contained', 'outlined', 'text'] },
+    size:        { control: 'select', options: [...BUTTON_SIZE_NAMES].reverse() },
+    color:       { control: 'select', options: ['primary', 'secondary', 'error', 'warning', 'info', 'success'] },
+    orientation: { control: 'select', options: ['horizontal', 'vertical'] },
+    disabled:    { control: 'boolean' },
+    children:    { control: false },
+  },
+  args: {
+    'aria-label': 'Text alignment',
+    children: [
+      <Button key="left">Left</Button>,
+      <Button key="center">Center</Button>,
+      <Button key="right">Right</Button>,
+    ],
+  },
+} satisfies Meta<typeof ButtonGroup>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ─── Playground ──────────────────────────────────────────────────────────────
+
+export const Playground: Story = {
+  args: {
+    variant:     'outlined',
+    size:        'medium',
+    color:       'primary',
+    orientation: 'horizontal',
+    disabled:    false,
+  },
+};
+
+// ─── Variants ────────────────────────────────────────────────────────────────
+
+const COLORS = BUTTON_COLORS;
+const VARIANTS = BUTTON_VARIANTS;
+
+export const Variants: Story = {
+  parameters: { docs: { description: { story: 'Contained shares one elevation with darker dividers. Outlined merges its 50%-opacity borders. Text gets a thin divider.' } } },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16, alignItems: 'flex-start' }}>
+      {VARIANTS.map(variant => (
+        <ButtonGroup key={variant} variant={variant} aria-label={`${variant} group`}>
+          <Button>One</Button>
+          <Button>Two</Button>
+          <Button>Three</Button>
+        </ButtonGroup>
+      ))}
+    </div>
+  ),
+};
+
+export const Vertical: Story = {
+  render: () => (
+    <div style={{ display: 'flex', gap: 16, alignItems: 'flex-start' }}>
+      {VARIANTS.map(variant => (
+        <ButtonGroup key={variant} variant={variant} orientation="vertical" aria-label={`${variant} group`}>
+          <Button>One</Button>
+          <Button>Two</Button>
+          <Button>Three</Button>
+        </ButtonGroup>
+      ))}
+    </div>
+  ),
+};
+
+// ─── Colors × Variants ───────────────────────────────────────────────────────
+
+export const AllColors: Story = {
+  parameters: { docs: { description: { story: 'All 6 colors across all 3 variants.' } } },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      {VARIANTS.map(variant => (
+        <div key={variant}>
+          <p style={{ fontFamily: 'Roboto, sans-serif', fontSize: 11, fontWeight: 500, color: '#888', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 10 }}>
+            {variant}
+          </p>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+            {COLORS.map(color => (
+              <ButtonGroup key={color} variant={variant} color={color} size="small" aria-label={color}>
+                <Button>{color}</Button>
+                <Button>Two</Button>
+              </ButtonGroup>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  ),
+};
+
+// ─── Overrides ───────────────────────────────────────────────────────────────
+
+export const ChildOverrides: Story = {
+  parameters: { docs: { description: { story: 'Children keep their own props: the last button overrides `color`, the middle one is disabled.' } } },
+  render: () => (
+    <ButtonGroup variant="outlined" color="primary" aria-label="Document actions">
+      <Button>Save</Button>
+      <Button disabled>Publish</Button>
+      <Button color="error">Delete</Button>
+    </ButtonGroup>
+  ),
+};
+
+export const Disabled: Story = {
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16, alignItems: 'flex-start' }}>
+      {VARIANTS.map(variant => (
+        <ButtonGroup key={variant} variant={variant} disabled aria-label={`${variant} group`}>
+          <Button>One</Button>
+          <Button>Two</Button>
+          <Button>Three</Button>
+        </ButtonGroup>
+      ))}
+    </div>
+  ),
+};
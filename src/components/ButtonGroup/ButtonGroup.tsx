@@ -0,0 +1,76 @@
+import React, { useMemo } from 'react';
+import { buildGroupVars, isStaticTheme, type ButtonColor, type ButtonVariant } from '../Button/tokens';
+import type { ButtonSize } from '../Button/Button';
+import type { Responsive } from '../../tokens/breakpoints';
+import { ButtonGroupContext } from './ButtonGroupContext';
+import { useStyling, useTheme } from '../Theme/ThemeContext';
+import '../Button/Button.css';
+import './ButtonGroup.css';
+
+export type ButtonGroupOrientation = 'horizontal' | 'vertical';
+
+interface ButtonGroupOwnProps {
+  variant?:     ButtonVariant;
+  size?:        Responsive<ButtonSize>;
+  color?:       ButtonColor;
+  disabled?:    boolean;
+  orientation?: ButtonGroupOrientation;
+  children?:    React.ReactNode;
+}
+
+export type ButtonGroupProps =
+  ButtonGroupOwnProps &
+  Omit<React.ComponentPropsWithRef<'div'>, keyof ButtonGroupOwnProps>;
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Joins Buttons into one control. `variant` / `size` / `color` / `disabled`
+ * reach every child Button through context; a child's own prop overrides it.
+ *
+ * Adjacent buttons overlap by 1px so outlined borders merge into a single
+ * 50%-opacity line, and only the outer corners keep their radius. Each button
+ * stays its own tab stop; the focused one is raised so its ring isn't covered.
+ */
+export function ButtonGroup({
+  variant     = 'contained',
+  size        = 'medium',
+  color       = 'primary',
+  disabled    = false,
+  orientation = 'horizontal',
+  children,
+  className: userClassName,
+  style:     userStyle,
+  role = 'group',
+  ...rest
+}: ButtonGroupProps) {
+  const context = useMemo(
+    () => ({ variant, size, color, disabled }),
+    [variant, size, color, disabled],
+  );
+
+  const theme    = useTheme();
+  const isStatic = useStyling() === 'static' && isStaticTheme(theme);
+
+  const className = [
+    'btn-group',
+    `btn-group--${orientation}`,
+    `btn-group--${variant}`,
+    isStatic && `btn-group--${theme.colorScheme}`,
+    userClassName,
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div
+      {...rest}
+      role={role}
+      aria-orientation={orientation === 'vertical' ? 'vertical' : undefined}
+      className={className}
+      style={isStatic ? userStyle : { ...buildGroupVars(theme), ...userStyle } as React.CSSProperties}
+    >
+      <ButtonGroupContext.Provider value={context}>
+        {children}
+      </ButtonGroupContext.Provider>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { createContext, useContext } from 'react';
+import type { ButtonColor, ButtonVariant } from '../Button/tokens';
+import type { ButtonSize } from '../Button/Button';
+import type { Responsive } from '../../tokens/breakpoints';
+
+/** Props a ButtonGroup hands down to its Buttons. A Button's own prop wins. */
+export interface ButtonGroupContextValue {
+  variant?:  ButtonVariant;
+  size?:     Responsive<ButtonSize>;
+  color?:    ButtonColor;
+  disabled?: boolean;
+}
+
+export const ButtonGroupContext = createContext<ButtonGroupContextValue>({});
+
+export function useButtonGroup(): ButtonGroupContextValue {
+  return useContext(ButtonGroupContext);
+}
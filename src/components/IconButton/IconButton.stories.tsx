@@ -0,0 +1,129 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { IconButton } from './IconButton';
+import { BUTTON_COLORS, BUTTON_MANIFEST, BUTTON_SIZE_NAMES, BUTTON_VARIANTS } from '../Button/manifest';
+
+const CloseIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+    <path d="M19 6.41 17.59 5 12 10.59 6.41 5 5 6.41 10.59 12 5 17.59 6.41 19 12 13.41 17.59 19 19 17.59 13.41 12z" />
+  </svg>
+);
+
+const MoreIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+    <path d="M12 8c1.1 0 2-.9 2-2s-.9-2-2-2-2 .9-2 2 .9 2 2 2zm0 2c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2zm0 6c-1.1 0-2 .9-2 2s.9 2 2 2 2-.9 2-2-.9-2-2-2z" />
+  </svg>
+);
+
+const meta = {
+  title: 'Components/IconButton',
+  component: IconButton,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component:
+          'Icon-only button sharing the Button design tokens. Supports ' +
+          `${BUTTON_VARIANTS.length} variants × ${BUTTON_COLORS.length} colors × ${BUTTON_SIZE_NAMES.length} sizes ` +
+          'in circular or square shape. An `aria-label` (or `aria-labelledby`) is required.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    variant:  { control: 'select', options: ['contained', 'outlined', 'text'] },
+    size:     { control: 'select', options: [...BUTTON_SIZE_NAMES].reverse() },
+    color:    { control: 'select', options: ['primary', 'secondary', 'error', 'warning', 'info', 'success'] },
+    shape:    { control: 'select', options: ['circular', 'square'] },
+    disabled: { control: 'boolean' },
+    children: { control: false },
+  },
+} satisfies Meta<typeof IconButton>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ─── Playground ──────────────────────────────────────────────────────────────
+
+export const Playground: Story = {
+  args: {
+    'aria-label': 'Close',
+    children: <CloseIcon />,
+    variant:  'text',
+    size:     'medium',
+    color:    'primary',
+    shape:    'circular',
+    disabled: false,
+  },
+};
+
+// ─── Variants ────────────────────────────────────────────────────────────────
+
+export const Variants: Story = {
+  args: { 'aria-label': 'More', children: <MoreIcon /> },
+  render: () => (
+    <div style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
+      <IconButton variant="contained" aria-label="More"><MoreIcon /></IconButton>
+      <IconButton variant="outlined"  aria-label="More"><MoreIcon /></IconButton>
+      <IconButton variant="text"      aria-label="More"><MoreIcon /></IconButton>
+    </div>
+  ),
+};
+
+// ─── Sizes & shapes ──────────────────────────────────────────────────────────
+
+export const Sizes: Story = {
+  args: { 'aria-label': 'Close', children: <CloseIcon /> },
+  parameters: {
+    docs: {
+      description: {
+        story: BUTTON_SIZE_NAMES
+          .map(size => `${size} (${BUTTON_MANIFEST.sizes[size].height}, ${BUTTON_MANIFEST.sizes[size].iconSize} icon)`)
+          .join(' · ') + ', matching the Button heights.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 16 }}>
+      {(['circular', 'square'] as const).map(shape => (
+        <div key={shape} style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
+          {BUTTON_SIZE_NAMES.map(size => (
+            <IconButton key={size} shape={shape} variant="contained" size={size} aria-label="Close"><CloseIcon /></IconButton>
+          ))}
+        </div>
+      ))}
+    </div>
+  ),
+};
+
+// ─── Colors × Variants ───────────────────────────────────────────────────────
+
+const COLORS = BUTTON_COLORS;
+const VARIANTS = BUTTON_VARIANTS;
+
+export const AllColors: Story = {
+  args: { 'aria-label': 'Close', children: <CloseIcon /> },
+  parameters: { docs: { description: { story: 'All 6 colors across all 3 variants, enabled and disabled.' } } },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      {VARIANTS.map(variant => (
+        <div key={variant}>
+          <p style={{ fontFamily: 'Roboto, sans-serif', fontSize: 11, fontWeight: 500, color: '#888', textTransform: 'uppercase', letterSpacing: '0.08em', marginBottom: 10 }}>
+            {variant}
+          </p>
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+            {COLORS.map(color => (
+              <IconButton key={color} variant={variant} color={color} aria-label={color}>
+                <CloseIcon />
+              </IconButton>
+            ))}
+            {COLORS.map(color => (
+              <IconButton key={`${color}-disabled`} variant={variant} color={color} aria-label={`${color} disabled`} disabled>
+                <CloseIcon />
+              </IconButton>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  ),
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import type { ButtonColor, ButtonVariant } from '../Button/tokens';
+import type { ButtonSize } from '../Button/manifest';
+import { useButtonStyle } from '../Button/useButtonStyle';
+import '../Button/Button.css';
+import './IconButton.css';
+
+export type IconButtonSize  = ButtonSize;
+export type IconButtonShape = 'circular' | 'square';
+
+/**
+ * An icon has no text, so an accessible name is required: either an
+ * `aria-label` or the id of a visible label through `aria-labelledby`.
+ */
+type IconButtonLabel =
+  | { 'aria-label': string; 'aria-labelledby'?: string }
+  | { 'aria-label'?: string; 'aria-labelledby': string };
+
+interface IconButtonOwnProps {
+  variant?:  ButtonVariant;
+  size?:     IconButtonSize;
+  color?:    ButtonColor;
+  shape?:    IconButtonShape;
+  disabled?: boolean;
+  /** The icon. SVGs sized `1em` pick up the per-size icon size. */
+  children:  React.ReactNode;
+}
+
+export type IconButtonProps =
+  IconButtonOwnProps &
+  IconButtonLabel &
+  Omit<React.ComponentPropsWithRef<'button'>, keyof IconButtonOwnProps | 'aria-label' | 'aria-labelledby'>;
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Icon-only button. Shares the Button color tokens, `buildVars` output and
+ * state styling (hover / focus / pressed / disabled); only the box differs:
+ * a square or circle matching the Button height of each size and density.
+ */
+export function IconButton({
+  variant  = 'text',
+  size     = 'medium',
+  color    = 'primary',
+  shape    = 'circular',
+  disabled = false,
+  children,
+  className: userClassName,
+  style:     userStyle,
+  type = 'button',
+  ...rest
+}: IconButtonProps) {
+  const { classes: styleClasses, style } = useButtonStyle(variant, color, disabled, false, userStyle);
+
+  const className = [
+    'btn',
+    `btn--${variant}`,
+    ...styleClasses,
+    'icon-btn',
+    `icon-btn--${size}`,
+    `icon-btn--${shape}`,
+    userClassName,
+  ].filter(Boolean).join(' ');
+
+  return (
+    <button
+      {...rest}
+      type={type}
+      disabled={disabled}
+      className={className}
+      style={style}
+    >
+      {children}
+    </button>
+  );
+}
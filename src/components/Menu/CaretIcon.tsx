@@ -0,0 +1,8 @@
+/** Down-pointing caret; flips while the menu is open (see Menu.css). */
+export function CaretIcon() {
+  return (
+    <svg className="menu-caret" width="18" height="18" viewBox="0 0 24 24" fill="currentColor" aria-hidden="true">
+      <path d="m7 10 5 5 5-5z" />
+    </svg>
+  );
+}
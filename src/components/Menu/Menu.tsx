@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { buildMenuVars, isStaticTheme, resolveColorTokens, type ButtonColor } from '../Button/tokens';
+import { useStyling, useTheme } from '../Theme/ThemeContext';
+import './Menu.css';
+
+export interface MenuItem {
+  key:       string;
+  label:     React.ReactNode;
+  /** Text used for typeahead; defaults to `label` when it is a string. */
+  textValue?: string;
+  disabled?: boolean;
+}
+
+/** Which item receives focus when the menu opens. */
+export type MenuFocus = 'first' | 'last';
+
+export interface MenuProps {
+  id:         string;
+  /** id of the element that names the menu — the trigger button. */
+  labelledBy: string;
+  items:      MenuItem[];
+  color?:     ButtonColor;
+  focus:      MenuFocus;
+  onSelect?:  (key: string) => void;
+  /** `returnFocus` is true when focus should go back to the trigger. */
+  onClose:    (returnFocus: boolean) => void;
+}
+
+const TYPEAHEAD_RESET_MS = 500;
+
+function textOf(item: MenuItem): string {
+  return (item.textValue ?? (typeof item.label === 'string' ? item.label : '')).toLowerCase();
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * The popup half of the WAI-ARIA menu button pattern. Render it only while
+ * open: it focuses an item on mount and handles ArrowUp / ArrowDown (wrapping),
+ * Home / End, typeahead, Enter / Space to activate, Escape to close with focus
+ * returned to the trigger, and Tab to close and move on. Disabled items are
+ * announced but skipped by navigation.
+ */
+export function Menu({
+  id,
+  labelledBy,
+  items,
+  color = 'primary',
+  focus,
+  onSelect,
+  onClose,
+}: MenuProps) {
+  const theme    = useTheme();
+  const isStatic = useStyling() === 'static' && isStaticTheme(theme);
+  const enabled = items.flatMap((item, i) => (item.disabled ? [] : [i]));
+  const [active, setActive] = useState(() => (focus === 'last' ? enabled.at(-1) : enabled[0]) ?? -1);
+  const itemRefs  = useRef<(HTMLLIElement | null)[]>([]);
+  const typeahead = useRef({ text: '', timer: 0 });
+
+  useEffect(() => {
+    itemRefs.current[active]?.focus();
+  }, [active]);
+
+  useEffect(() => () => window.clearTimeout(typeahead.current.timer), []);
+
+  function move(delta: 1 | -1) {
+    if (enabled.length === 0) return;
+    const pos = enabled.indexOf(active);
+    setActive(enabled[(pos + delta + enabled.length) % enabled.length]);
+  }
+
+  function select(index: number) {
+    const item = items[index];
+    if (!item || item.disabled) return;
+    onSelect?.(item.key);
+    onClose(true);
+  }
+
+  function search(char: string) {
+    const state = typeahead.current;
+    window.clearTimeout(state.timer);
+    state.text += char.toLowerCase();
+    state.timer = window.setTimeout(() => { state.text = ''; }, TYPEAHEAD_RESET_MS);
+
+    // Repeating one character cycles through the items that start with it;
+    // a longer query may keep matching the active item itself.
+    const repeated = state.text.split('').every(c => c === state.text[0]);
+    const query    = repeated ? state.text[0] : state.text;
+    const from     = enabled.indexOf(active) + (repeated ? 1 : 0);
+    const order    = [...enabled.slice(from), ...enabled.slice(0, from)];
+    const match    = order.find(i => textOf(items[i]).startsWith(query));
+    if (match !== undefined) setActive(match);
+  }
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLUListElement>) {
+    switch (event.key) {
+      case 'ArrowDown': move(1);  break;
+      case 'ArrowUp':   move(-1); break;
+      case 'Home':      if (enabled.length) setActive(enabled[0]); break;
+      case 'End':       if (enabled.length) setActive(enabled[enabled.length - 1]); break;
+      case 'Enter':
+      case ' ':         select(active); break;
+      case 'Escape':    onClose(true); break;
+      case 'Tab':       onClose(false); return; // let the browser move focus on
+      default:
+        if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+          search(event.key);
+          break;
+        }
+        return;
+    }
+    event.preventDefault();
+    event.stopPropagation();
+  }
+
+  return (
+    <ul
+      id={id}
+      role="menu"
+      aria-labelledby={labelledBy}
+      className={isStatic ? `menu menu--${theme.colorScheme}` : 'menu'}
+      style={{
+        ...(isStatic ? {} : buildMenuVars(theme)),
+        '--menu-item-focus-bg': `rgba(${resolveColorTokens(color, theme.palette).rgb}, 0.08)`,
+      } as React.CSSProperties}
+      onKeyDown={handleKeyDown}
+    >
+      {items.map((item, i) => (
+        <li
+          key={item.key}
+          ref={el => { itemRefs.current[i] = el; }}
+          role="menuitem"
+          tabIndex={-1}
+          aria-disabled={item.disabled || undefined}
+          className="menu__item"
+          onClick={() => select(i)}
+          onMouseEnter={() => { if (!item.disabled) setActive(i); }}
+        >
+          {item.label}
+        </li>
+      ))}
+    </ul>
+  );
+}
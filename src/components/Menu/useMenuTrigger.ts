@@ -0,0 +1,56 @@
+import React, { useCallback, useEffect, useId, useRef, useState } from 'react';
+import type { MenuFocus } from './Menu';
+
+/**
+ * Open/close state and ARIA wiring shared by MenuButton and SplitButton.
+ * Spread `triggerProps` on the button that opens the menu, `menuProps` on the
+ * `<Menu>` (rendered while `open`) and put `anchorRef` on the element that
+ * wraps both — a mousedown outside it closes the menu.
+ */
+export function useMenuTrigger() {
+  const [focus, setFocus] = useState<MenuFocus | null>(null);
+  const open       = focus !== null;
+  const triggerRef = useRef<HTMLButtonElement>(null);
+  const anchorRef  = useRef<HTMLDivElement>(null);
+  const triggerId  = useId();
+  const menuId     = useId();
+
+  const close = useCallback((returnFocus: boolean) => {
+    setFocus(null);
+    if (returnFocus) triggerRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (event: MouseEvent) => {
+      if (!anchorRef.current?.contains(event.target as Node)) close(false);
+    };
+    document.addEventListener('mousedown', onPointerDown);
+    return () => document.removeEventListener('mousedown', onPointerDown);
+  }, [open, close]);
+
+  const triggerProps = {
+    id:              triggerId,
+    ref:             triggerRef,
+    'aria-haspopup': 'menu' as const,
+    'aria-expanded': open,
+    'aria-controls': open ? menuId : undefined,
+    // Enter and Space arrive here as clicks and open on the first item.
+    onClick: () => (open ? close(false) : setFocus('first')),
+    onKeyDown: (event: React.KeyboardEvent) => {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        setFocus(event.key === 'ArrowDown' ? 'first' : 'last');
+      }
+    },
+  };
+
+  const menuProps = {
+    id:         menuId,
+    labelledBy: triggerId,
+    focus:      focus ?? 'first',
+    onClose:    close,
+  };
+
+  return { open, anchorRef, triggerProps, menuProps };
+}
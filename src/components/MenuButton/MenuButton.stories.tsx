@@ -0,0 +1,65 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { MenuButton } from './MenuButton';
+import { BUTTON_SIZE_NAMES } from '../Button/manifest';
+
+const EXPORT_ITEMS = [
+  { key: 'pdf',   label: 'PDF' },
+  { key: 'png',   label: 'PNG image' },
+  { key: 'pptx',  label: 'PowerPoint', disabled: true },
+  { key: 'svg',   label: 'SVG vector' },
+  { key: 'sheet', label: 'Spreadsheet' },
+];
+
+const meta = {
+  title: 'Components/MenuButton',
+  component: MenuButton,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component:
+          'A Button that opens a menu of actions (WAI-ARIA menu button pattern). ' +
+          'Enter / Space / ArrowDown open on the first item, ArrowUp on the last.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    variant:  { control: 'select', options: ['contained', 'outlined', 'text'] },
+    size:     { control: 'select', options: [...BUTTON_SIZE_NAMES].reverse() },
+    color:    { control: 'select', options: ['primary', 'secondary', 'error', 'warning', 'info', 'success'] },
+    disabled: { control: 'boolean' },
+    children: { control: 'text' },
+    items:    { control: false },
+  },
+  args: {
+    children: 'Export',
+    items:    EXPORT_ITEMS,
+  },
+} satisfies Meta<typeof MenuButton>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ─── Playground ──────────────────────────────────────────────────────────────
+
+export const Playground: Story = {
+  args: {
+    variant:  'outlined',
+    size:     'medium',
+    color:    'primary',
+    disabled: false,
+  },
+};
+
+// ─── Variants ────────────────────────────────────────────────────────────────
+
+export const Variants: Story = {
+  render: () => (
+    <div style={{ display: 'flex', gap: 16, alignItems: 'center' }}>
+      <MenuButton variant="contained" items={EXPORT_ITEMS}>Export</MenuButton>
+      <MenuButton variant="outlined"  items={EXPORT_ITEMS}>Export</MenuButton>
+      <MenuButton variant="text"      items={EXPORT_ITEMS}>Export</MenuButton>
+    </div>
+  ),
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Button, type ButtonSize } from '../Button/Button';
+import type { ButtonColor, ButtonVariant } from '../Button/tokens';
+import type { Responsive } from '../../tokens/breakpoints';
+import { Menu, type MenuItem } from '../Menu/Menu';
+import { CaretIcon } from '../Menu/CaretIcon';
+import { useMenuTrigger } from '../Menu/useMenuTrigger';
+
+export interface MenuButtonProps {
+  variant?:   ButtonVariant;
+  size?:      Responsive<ButtonSize>;
+  color?:     ButtonColor;
+  disabled?:  boolean;
+  startIcon?: React.ReactNode;
+  /** Label of the trigger button. */
+  children?:  React.ReactNode;
+  items:      MenuItem[];
+  onSelect?:  (key: string) => void;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * A Button that opens a menu of actions, following the WAI-ARIA menu button
+ * pattern: Enter / Space / ArrowDown open on the first item, ArrowUp on the
+ * last, and closing returns focus to the button.
+ */
+export function MenuButton({
+  variant,
+  size,
+  color = 'primary',
+  disabled,
+  startIcon,
+  children,
+  items,
+  onSelect,
+}: MenuButtonProps) {
+  const { open, anchorRef, triggerProps, menuProps } = useMenuTrigger();
+
+  return (
+    <div ref={anchorRef} className="menu-anchor">
+      <Button
+        {...triggerProps}
+        variant={variant}
+        size={size}
+        color={color}
+        disabled={disabled}
+        startIcon={startIcon}
+        endIcon={<CaretIcon />}
+      >
+        {children}
+      </Button>
+      {open && <Menu {...menuProps} items={items} color={color} onSelect={onSelect} />}
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import { createContext, useContext } from 'react';
+
+export interface RippleContextValue {
+  /** Turns the press ripple off for every Button below the provider. */
+  disabled: boolean;
+}
+
+export const RippleContext = createContext<RippleContextValue>({ disabled: false });
+
+export function useRippleConfig(): RippleContextValue {
+  return useContext(RippleContext);
+}
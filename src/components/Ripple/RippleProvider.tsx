@@ -0,0 +1,16 @@
+import React, { useMemo } from 'react';
+import { RippleContext } from './RippleContext';
+
+export interface RippleProviderProps {
+  disabled?: boolean;
+  children?: React.ReactNode;
+}
+
+/**
+ * App-wide ripple switch: `<RippleProvider disabled>` around the app turns the
+ * press ripple off for every Button inside. Providers can be nested.
+ */
+export function RippleProvider({ disabled = false, children }: RippleProviderProps) {
+  const value = useMemo(() => ({ disabled }), [disabled]);
+  return <RippleContext.Provider value={value}>{children}</RippleContext.Provider>;
+}
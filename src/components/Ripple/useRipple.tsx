@@ -0,0 +1,87 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { useRippleConfig } from './RippleContext';
+import './Ripple.css';
+
+interface RippleWave {
+  key:     number;
+  x:       number;
+  y:       number;
+  size:    number;
+  exiting: boolean;
+}
+
+function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' &&
+    window.matchMedia?.('(prefers-reduced-motion: reduce)').matches === true;
+}
+
+/**
+ * Press ripple for button-like elements. Spread `handlers` on the element
+ * (composing with any user handlers) and render `ripples` inside it.
+ *
+ * A pointer press grows a wave from the pointer position; Enter / Space grow
+ * one from the center. Waves fade when the press ends. Nothing is rendered when
+ * `disabled`, under a `<RippleProvider disabled>`, or with
+ * `prefers-reduced-motion: reduce`. The wave color is `--btn-ripple`.
+ */
+export function useRipple(disabled: boolean) {
+  const config = useRippleConfig();
+  const [waves, setWaves] = useState<RippleWave[]>([]);
+  const nextKey = useRef(0);
+  const off = disabled || config.disabled;
+
+  const start = useCallback((el: HTMLElement, clientX?: number, clientY?: number) => {
+    if (off || prefersReducedMotion()) return;
+    const rect = el.getBoundingClientRect();
+    const x = clientX === undefined ? rect.width  / 2 : clientX - rect.left;
+    const y = clientY === undefined ? rect.height / 2 : clientY - rect.top;
+    // Big enough to reach the farthest corner from the origin.
+    const size = 2 * Math.hypot(Math.max(x, rect.width - x), Math.max(y, rect.height - y));
+    const key  = nextKey.current++;
+    setWaves(w => [...w, { key, x, y, size, exiting: false }]);
+  }, [off]);
+
+  const stop = useCallback(() => {
+    setWaves(w => (w.some(wave => !wave.exiting) ? w.map(wave => ({ ...wave, exiting: true })) : w));
+  }, []);
+
+  const handlers = {
+    onPointerDown: (event: React.PointerEvent<HTMLElement>) => {
+      if (event.button === 0) start(event.currentTarget, event.clientX, event.clientY);
+    },
+    onPointerUp:     stop,
+    onPointerLeave:  stop,
+    onPointerCancel: stop,
+    onKeyDown: (event: React.KeyboardEvent<HTMLElement>) => {
+      if ((event.key === 'Enter' || event.key === ' ') && !event.repeat) start(event.currentTarget);
+    },
+    onKeyUp: stop,
+    onBlur:  stop,
+  };
+
+  const ripples = waves.length === 0 ? null : (
+    <span className="btn__ripple-root" aria-hidden="true">
+      {waves.map(wave => (
+        <span
+          key={wave.key}
+          className={wave.exiting ? 'btn__ripple btn__ripple--exiting' : 'btn__ripple'}
+          style={{
+            left:   wave.x - wave.size / 2,
+            top:    wave.y - wave.size / 2,
+            width:  wave.size,
+            height: wave.size,
+          }}
+          onAnimationEnd={event => {
+            if (event.animationName === 'btn-ripple-exit') {
+              setWaves(w => w.filter(other => other.key !== wave.key));
+            }
+          }}
+        >
+          <span className="btn__ripple-wave" />
+        </span>
+      ))}
+    </span>
+  );
+
+  return { ripples, handlers };
+}
@@ -0,0 +1,91 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { SplitButton } from './SplitButton';
+import { BUTTON_COLORS, BUTTON_SIZE_NAMES, BUTTON_VARIANTS } from '../Button/manifest';
+
+const SAVE_ITEMS = [
+  { key: 'draft',    label: 'Save as draft' },
+  { key: 'template', label: 'Save as template' },
+  { key: 'copy',     label: 'Save a copy', disabled: true },
+  { key: 'schedule', label: 'Schedule…' },
+];
+
+const meta = {
+  title: 'Components/SplitButton',
+  component: SplitButton,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component:
+          'Primary action plus a dropdown of alternatives. The caret opens a WAI-ARIA menu: ' +
+          'arrow keys, Home / End, typeahead, Escape (focus returns to the caret) and Tab are supported.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    variant:  { control: 'select', options: ['contained', 'outlined', 'text'] },
+    size:     { control: 'select', options: [...BUTTON_SIZE_NAMES].reverse() },
+    color:    { control: 'select', options: ['primary', 'secondary', 'error', 'warning', 'info', 'success'] },
+    disabled: { control: 'boolean' },
+    children: { control: 'text' },
+    items:    { control: false },
+  },
+  args: {
+    children: 'Save',
+    items:    SAVE_ITEMS,
+  },
+} satisfies Meta<typeof SplitButton>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ─── Playground ──────────────────────────────────────────────────────────────
+
+export const Playground: Story = {
+  args: {
+    variant:  'contained',
+    size:     'medium',
+    color:    'primary',
+    disabled: false,
+  },
+};
+
+// ─── Colors × Variants ───────────────────────────────────────────────────────
+
+const COLORS = BUTTON_COLORS;
+const VARIANTS = BUTTON_VARIANTS;
+
+export const AllColors: Story = {
+  parameters: { docs: { description: { story: 'All 6 colors across all 3 variants. The menu highlight follows the color.' } } },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      {VARIANTS.map(variant => (
+        <div key={variant} style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+          {COLORS.map(color => (
+            <SplitButton key={color} variant={variant} color={color} items={SAVE_ITEMS}>
+              {color}
+            </SplitButton>
+          ))}
+        </div>
+      ))}
+    </div>
+  ),
+};
+
+// ─── Responsive ──────────────────────────────────────────────────────────────
+
+export const Responsive: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          '`size` takes a breakpoint map, as Button does: large on phones, medium from `md` (900px) up. ' +
+          'Both halves, caret padding included, switch together.',
+      },
+    },
+  },
+  args: {
+    size: { xs: 'large', md: 'medium' },
+  },
+};
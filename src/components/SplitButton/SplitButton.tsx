@@ -0,0 +1,57 @@
+import React from 'react';
+import { Button, type ButtonSize } from '../Button/Button';
+import type { ButtonColor, ButtonVariant } from '../Button/tokens';
+import { ButtonGroup } from '../ButtonGroup/ButtonGroup';
+import type { Responsive } from '../../tokens/breakpoints';
+import { Menu, type MenuItem } from '../Menu/Menu';
+import { CaretIcon } from '../Menu/CaretIcon';
+import { useMenuTrigger } from '../Menu/useMenuTrigger';
+import './SplitButton.css';
+
+export interface SplitButtonProps {
+  variant?:   ButtonVariant;
+  size?:      Responsive<ButtonSize>;
+  color?:     ButtonColor;
+  disabled?:  boolean;
+  /** Label of the primary action. */
+  children?:  React.ReactNode;
+  onClick?:   React.MouseEventHandler<HTMLButtonElement>;
+  /** The alternatives shown in the dropdown. */
+  items:      MenuItem[];
+  onSelect?:  (key: string) => void;
+  /** Accessible name of the dropdown toggle (it only shows a caret). */
+  menuLabel?: string;
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * A primary action joined to a dropdown of alternatives, e.g. "Save" with
+ * "Save as draft". The two halves are a ButtonGroup; the caret half is a
+ * WAI-ARIA menu button whose menu is anchored under the whole group.
+ */
+export function SplitButton({
+  variant  = 'contained',
+  size     = 'medium',
+  color    = 'primary',
+  disabled = false,
+  children,
+  onClick,
+  items,
+  onSelect,
+  menuLabel = 'More options',
+}: SplitButtonProps) {
+  const { open, anchorRef, triggerProps, menuProps } = useMenuTrigger();
+
+  return (
+    <div ref={anchorRef} className="menu-anchor">
+      <ButtonGroup variant={variant} size={size} color={color} disabled={disabled}>
+        <Button onClick={onClick}>{children}</Button>
+        <Button {...triggerProps} aria-label={menuLabel} className="split-btn__toggle">
+          <CaretIcon />
+        </Button>
+      </ButtonGroup>
+      {open && <Menu {...menuProps} items={items} color={color} onSelect={onSelect} />}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { createContext, useContext } from 'react';
+import { DEFAULT_THEME, type ColorScheme, type StylingMode, type Theme } from '../Button/tokens';
+import type { ButtonDensity } from '../../tokens/sizes';
+import type { ThemeOptions } from './mergeTheme';
+
+export const ThemeContext = createContext<Theme>(DEFAULT_THEME);
+
+/**
+ * What produced the current theme: the scheme and every enclosing provider's
+ * overrides, outermost first. A nested provider that switches scheme replays
+ * the overrides onto the other scheme's base theme.
+ */
+export interface ThemeLayers {
+  colorScheme: ColorScheme;
+  overrides:   readonly ThemeOptions[];
+}
+
+export const ThemeLayersContext = createContext<ThemeLayers>({ colorScheme: 'light', overrides: [] });
+
+/** The nearest ThemeProvider's merged theme, or the Figma defaults. */
+export function useTheme(): Theme {
+  return useContext(ThemeContext);
+}
+
+export const StylingContext = createContext<StylingMode>('inline');
+
+/** Whether components inside put their variables inline or use class names. */
+export function useStyling(): StylingMode {
+  return useContext(StylingContext);
+}
+
+export const DensityContext = createContext<ButtonDensity>('comfortable');
+
+/** How much padding button-like components inside use. */
+export function useDensity(): ButtonDensity {
+  return useContext(DensityContext);
+}
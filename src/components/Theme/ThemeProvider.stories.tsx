@@ -0,0 +1,130 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { Button } from '../Button/Button';
+import { ButtonGroup } from '../ButtonGroup/ButtonGroup';
+import { IconButton } from '../IconButton/IconButton';
+import { ThemeProvider } from './ThemeProvider';
+import type { ThemeOptions } from './mergeTheme';
+import { SUB_BRAND_THEME } from './exampleThemes';
+import { BUTTON_VARIANTS } from '../Button/manifest';
+
+const meta = {
+  title: 'Components/ThemeProvider',
+  component: ThemeProvider,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component:
+          'Deep-merges a partial theme (palette, disabled colors, radius, typography) onto the enclosing ' +
+          'one. Every Button, IconButton, ToggleButton and Menu inside picks it up. The "Theme" toolbar ' +
+          'wraps any story in one of the example themes.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+} satisfies Meta<typeof ThemeProvider>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+const VARIANTS = BUTTON_VARIANTS;
+
+const PlusIcon = () => (
+  <svg viewBox="0 0 24 24" width="1em" height="1em" fill="currentColor" aria-hidden>
+    <path d="M19 13h-6v6h-2v-6H5v-2h6V5h2v6h6v2z" />
+  </svg>
+);
+
+function Sample({ label }: { label: string }) {
+  return (
+    <div data-testid={label} style={{ display: 'flex', gap: 12, alignItems: 'center' }}>
+      {VARIANTS.map(variant => (
+        <Button key={variant} variant={variant}>{variant}</Button>
+      ))}
+      <Button color="secondary">Secondary</Button>
+      <Button disabled>Disabled</Button>
+      <IconButton aria-label="Add" variant="outlined" shape="square"><PlusIcon /></IconButton>
+      <ButtonGroup variant="outlined" aria-label={`${label} group`}>
+        <Button>One</Button>
+        <Button>Two</Button>
+      </ButtonGroup>
+    </div>
+  );
+}
+
+// ─── Overrides ───────────────────────────────────────────────────────────────
+
+export const Overrides: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'Left: Figma defaults. Right: a sub-brand that sets only `primary.main` / `secondary.main` — ' +
+          'hover, tints and label color are computed — plus an 8px radius and no uppercase.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      <Sample label="default" />
+      <ThemeProvider theme={SUB_BRAND_THEME}>
+        <Sample label="sub-brand" />
+      </ThemeProvider>
+    </div>
+  ),
+};
+
+// ─── Nested ──────────────────────────────────────────────────────────────────
+
+const SECTION_THEME: ThemeOptions = {
+  palette:  { primary: { main: '#6A1B9A', hover: '#38006B' } },
+  disabled: { background: 'rgba(106,27,154,0.12)', text: 'rgba(106,27,154,0.38)' },
+};
+
+export const Nested: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          'The inner provider changes only `primary` and the disabled colors; radius, typography and ' +
+          '`secondary` are inherited from the sub-brand provider around it.',
+      },
+    },
+  },
+  render: () => (
+    <ThemeProvider theme={SUB_BRAND_THEME}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+        <Sample label="outer" />
+        <ThemeProvider theme={SECTION_THEME}>
+          <Sample label="inner" />
+        </ThemeProvider>
+      </div>
+    </ThemeProvider>
+  ),
+};
+
+// ─── Color schemes ───────────────────────────────────────────────────────────
+
+export const ColorSchemes: Story = {
+  parameters: {
+    docs: {
+      description: {
+        story:
+          '`colorScheme="dark"` switches to the dark tokens: lighter mains with dark labels, stronger ' +
+          'outlined / text tints, white-based disabled colors and deeper shadows. `"system"` follows ' +
+          '`<html data-theme>` or `prefers-color-scheme`; the "Scheme" toolbar drives it for every story.',
+      },
+    },
+  },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column' }}>
+      {(['light', 'dark'] as const).map(scheme => (
+        <ThemeProvider key={scheme} colorScheme={scheme}>
+          <div style={{ padding: 24, background: scheme === 'dark' ? '#121212' : '#ffffff' }}>
+            <Sample label={scheme} />
+          </div>
+        </ThemeProvider>
+      ))}
+    </div>
+  ),
+};
@@ -0,0 +1,80 @@
+import React, { useContext, useMemo } from 'react';
+import { DARK_THEME, DEFAULT_THEME, type ColorScheme, type StylingMode, type Theme } from '../Button/tokens';
+import type { ButtonDensity } from '../../tokens/sizes';
+import { DensityContext, StylingContext, ThemeContext, ThemeLayersContext, useTheme } from './ThemeContext';
+import { mergeTheme, type ThemeOptions } from './mergeTheme';
+import { useSystemColorScheme } from './useSystemColorScheme';
+
+export type ColorSchemePreference = ColorScheme | 'system';
+
+export interface ThemeProviderProps {
+  /** Partial overrides, deep-merged onto the enclosing theme. */
+  theme?:       ThemeOptions;
+  /**
+   * `'system'` follows `<html data-theme>` when set, else the OS
+   * `prefers-color-scheme`. Omit to inherit the enclosing provider's scheme
+   * (light at the root).
+   */
+  colorScheme?: ColorSchemePreference;
+  /**
+   * `'static'` renders class names backed by Button.static.css instead of
+   * inline CSS variables — for strict CSP (`style-src` without
+   * `'unsafe-inline'`) and lighter SSR HTML. Applies to the built-in themes
+   * and palette colors; overrides and custom colors stay inline. Omit to
+   * inherit (inline at the root).
+   *
+   * The stylesheet is opt-in, so inline-mode apps don't ship it; an app that
+   * uses `'static'` imports it once, next to its root provider:
+   *
+   *   import './components/Button/Button.static.css';
+   */
+  styling?:     StylingMode;
+  /**
+   * `'compact'` scales every size's padding down (BUTTON_DENSITIES in
+   * src/tokens/sizes.ts) for data-dense screens; font sizes stay. Omit to
+   * inherit (comfortable at the root).
+   */
+  density?:     ButtonDensity;
+  children?:    React.ReactNode;
+}
+
+const SCHEME_THEMES: Record<ColorScheme, Theme> = { light: DEFAULT_THEME, dark: DARK_THEME };
+
+/**
+ * Re-skins every button-like component inside it. Providers nest: an inner
+ * `theme` is merged onto the outer provider's result, so a section can change
+ * one color and inherit the rest. An inner `colorScheme` swaps the base theme
+ * and re-applies every outer override on top of it.
+ *
+ * The merge is memoized on the parent theme and the `theme` object, so pass a
+ * stable object (a module constant or `useMemo`) — an inline literal re-merges
+ * and re-renders every consumer on each render.
+ */
+export function ThemeProvider({ theme, colorScheme, styling, density, children }: ThemeProviderProps) {
+  const parent       = useTheme();
+  const parentLayers = useContext(ThemeLayersContext);
+  const systemScheme = useSystemColorScheme(colorScheme === 'system');
+
+  const scheme = colorScheme === 'system' ? systemScheme : colorScheme ?? parentLayers.colorScheme;
+
+  const overrides = useMemo(
+    () => (theme ? [...parentLayers.overrides, theme] : parentLayers.overrides),
+    [parentLayers.overrides, theme],
+  );
+  const layers = useMemo(() => ({ colorScheme: scheme, overrides }), [scheme, overrides]);
+
+  const value = useMemo(
+    () => scheme === parent.colorScheme
+      ? mergeTheme(parent, theme)
+      : overrides.reduce<Theme>((merged, options) => mergeTheme(merged, options), SCHEME_THEMES[scheme]),
+    [parent, theme, scheme, overrides],
+  );
+
+  let content = (
+    <ThemeLayersContext.Provider value={layers}>
+      <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+    </ThemeLayersContext.Provider>
+  );
+  if (density) content = <DensityContext.Provider value={density}>{content}</DensityContext.Provider>;
+  return styling ? <StylingContext.Provider value={styling}>{content}</StylingContext.Provider> : content;
+}
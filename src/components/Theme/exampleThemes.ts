@@ -0,0 +1,28 @@
+import type { ThemeOptions } from './mergeTheme';
+
+// ─── Example themes ──────────────────────────────────────────────────────────
+//
+// Used by the Storybook "Theme" toolbar and the ThemeProvider stories. Each is
+// a partial override of the Figma defaults, the same shape an app would pass.
+
+export const SUB_BRAND_THEME: ThemeOptions = {
+  palette: {
+    primary:   { main: '#00796B' },
+    secondary: { main: '#C2185B' },
+  },
+  shape:      { borderRadius: '8px' },
+  typography: { textTransform: 'none', letterSpacing: '0.01em' },
+};
+
+export const PILL_THEME: ThemeOptions = {
+  shape:      { borderRadius: '999px' },
+  typography: { fontWeight: 600 },
+};
+
+export const EXAMPLE_THEMES = {
+  default:  undefined,
+  subBrand: SUB_BRAND_THEME,
+  pill:     PILL_THEME,
+} satisfies Record<string, ThemeOptions | undefined>;
+
+export type ExampleThemeName = keyof typeof EXAMPLE_THEMES;
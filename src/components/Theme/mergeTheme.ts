@@ -0,0 +1,81 @@
+import { deriveColorTokens, warnOnce, type ColorTokens, type PaletteColor, type Theme } from '../Button/tokens';
+
+/**
+ * Override for one palette color. Setting only `main` recomputes hover, tint
+ * channels and label color from it; `hover` / `contrastText` pin those too.
+ */
+export interface PaletteColorOptions {
+  main?:         string;
+  hover?:        string;
+  contrastText?: string;
+}
+
+/**
+ * A partial theme: every key is optional, at every level. The color scheme is
+ * chosen with ThemeProvider's `colorScheme` prop, not here.
+ */
+export interface ThemeOptions {
+  palette?:    Partial<Record<PaletteColor, PaletteColorOptions>>;
+  tint?:       Partial<Theme['tint']>;
+  disabled?:   Partial<Theme['disabled']>;
+  surface?:    Partial<Theme['surface']>;
+  shape?:      Partial<Theme['shape']>;
+  elevation?:  Partial<Theme['elevation']>;
+  typography?: Partial<Theme['typography']>;
+}
+
+/**
+ * Deep-merges `options` onto `base` and returns a new theme; `base` is never
+ * mutated. Sections that aren't overridden keep their object identity, so the
+ * per-theme caches in buildVars stay warm for them.
+ */
+export function mergeTheme(base: Theme, options: ThemeOptions | undefined): Theme {
+  if (!options) return base;
+  return {
+    colorScheme: base.colorScheme,
+    palette:     options.palette ? mergePalette(base.palette, options.palette) : base.palette,
+    tint:        mergeSection(base.tint,       options.tint),
+    disabled:    mergeSection(base.disabled,   options.disabled),
+    surface:     mergeSection(base.surface,    options.surface),
+    shape:       mergeSection(base.shape,      options.shape),
+    elevation:   mergeSection(base.elevation,  options.elevation),
+    typography:  mergeSection(base.typography, options.typography),
+  };
+}
+
+function mergeSection<T extends object>(base: T, override: Partial<T> | undefined): T {
+  if (!override) return base;
+  const merged = { ...base };
+  for (const key of Object.keys(override) as (keyof T)[]) {
+    const value = override[key];
+    if (value !== undefined) merged[key] = value as T[keyof T];
+  }
+  return merged;
+}
+
+function mergePalette(
+  base:     Theme['palette'],
+  override: NonNullable<ThemeOptions['palette']>,
+): Theme['palette'] {
+  const merged = { ...base };
+  for (const color of Object.keys(override) as PaletteColor[]) {
+    const entry = override[color];
+    if (entry) merged[color] = mergeColor(base[color], entry, color);
+  }
+  return merged;
+}
+
+function mergeColor(base: ColorTokens, entry: PaletteColorOptions, name: PaletteColor): ColorTokens {
+  let from = base;
+  if (entry.main !== undefined) {
+    const derived = deriveColorTokens(entry.main);
+    if (derived) from = derived;
+    else warnOnce(`[ThemeProvider] Unsupported palette.${name}.main "${entry.main}" — keeping ${base.main}.`);
+  }
+  return {
+    main:         from.main,
+    hover:        entry.hover        ?? from.hover,
+    rgb:          from.rgb,
+    contrastText: entry.contrastText ?? from.contrastText,
+  };
+}
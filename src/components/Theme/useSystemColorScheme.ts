@@ -0,0 +1,38 @@
+import { useSyncExternalStore } from 'react';
+import type { ColorScheme } from '../Button/tokens';
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+function subscribe(onChange: () => void) {
+  const media = window.matchMedia(DARK_QUERY);
+  media.addEventListener('change', onChange);
+  const observer = new MutationObserver(onChange);
+  observer.observe(document.documentElement, { attributes: true, attributeFilter: ['data-theme'] });
+  return () => {
+    media.removeEventListener('change', onChange);
+    observer.disconnect();
+  };
+}
+
+/** `<html data-theme="light|dark">` wins; otherwise the OS preference. */
+function getSnapshot(): ColorScheme {
+  const attr = document.documentElement.dataset.theme;
+  if (attr === 'light' || attr === 'dark') return attr;
+  return window.matchMedia(DARK_QUERY).matches ? 'dark' : 'light';
+}
+
+const subscribeNone = () => () => {};
+const getLight = (): ColorScheme => 'light';
+
+/**
+ * The page's color scheme, kept in sync with `data-theme` on `<html>` and
+ * `prefers-color-scheme`. Listens only while `enabled`; renders 'light' on the
+ * server.
+ */
+export function useSystemColorScheme(enabled: boolean): ColorScheme {
+  return useSyncExternalStore(
+    enabled ? subscribe   : subscribeNone,
+    enabled ? getSnapshot : getLight,
+    getLight,
+  );
+}
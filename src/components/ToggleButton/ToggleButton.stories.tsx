@@ -0,0 +1,91 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { ToggleButton } from './ToggleButton';
+import { ToggleButtonGroup } from './ToggleButtonGroup';
+import { BUTTON_COLORS, BUTTON_SIZE_NAMES, BUTTON_VARIANTS } from '../Button/manifest';
+
+const meta = {
+  title: 'Components/ToggleButton',
+  component: ToggleButton,
+  parameters: {
+    layout: 'centered',
+    docs: {
+      description: {
+        component:
+          'Button that stays pressed (`aria-pressed`), controlled through `selected` / `onChange` or ' +
+          'uncontrolled through `defaultSelected`. `ToggleButtonGroup` adds exclusive (radio-like) ' +
+          'and multi-select modes.',
+      },
+    },
+  },
+  tags: ['autodocs'],
+  argTypes: {
+    variant:  { control: 'select', options: ['contained', 'outlined', 'text'] },
+    size:     { control: 'select', options: [...BUTTON_SIZE_NAMES].reverse() },
+    color:    { control: 'select', options: ['primary', 'secondary', 'error', 'warning', 'info', 'success'] },
+    disabled: { control: 'boolean' },
+    defaultSelected: { control: 'boolean' },
+    children: { control: 'text' },
+  },
+} satisfies Meta<typeof ToggleButton>;
+
+export default meta;
+type Story = StoryObj<typeof meta>;
+
+// ─── Playground ──────────────────────────────────────────────────────────────
+
+export const Playground: Story = {
+  args: {
+    children: 'Bold',
+    variant:  'outlined',
+    size:     'medium',
+    color:    'primary',
+    disabled: false,
+    defaultSelected: false,
+  },
+};
+
+// ─── Selected × Variants ─────────────────────────────────────────────────────
+
+const COLORS = BUTTON_COLORS;
+const VARIANTS = BUTTON_VARIANTS;
+
+export const SelectedColors: Story = {
+  parameters: { docs: { description: { story: 'Selected state across all 6 colors and 3 variants: contained uses the hover shade, outlined / text a 12% tint.' } } },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+      {VARIANTS.map(variant => (
+        <div key={variant} style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+          {COLORS.map(color => (
+            <ToggleButton key={color} variant={variant} color={color} defaultSelected>
+              {color}
+            </ToggleButton>
+          ))}
+        </div>
+      ))}
+    </div>
+  ),
+};
+
+// ─── Groups ──────────────────────────────────────────────────────────────────
+
+export const ExclusiveGroup: Story = {
+  parameters: { docs: { description: { story: 'Radio-like: one value, roving tabindex, arrow keys move the selection.' } } },
+  render: () => (
+    <ToggleButtonGroup exclusive defaultValue="list" aria-label="View">
+      <ToggleButton value="list">List</ToggleButton>
+      <ToggleButton value="grid">Grid</ToggleButton>
+      <ToggleButton value="board">Board</ToggleButton>
+    </ToggleButtonGroup>
+  ),
+};
+
+export const MultipleGroup: Story = {
+  parameters: { docs: { description: { story: 'Multi-select: each button toggles independently; the value is an array.' } } },
+  render: () => (
+    <ToggleButtonGroup defaultValue={['bold']} aria-label="Text formatting">
+      <ToggleButton value="bold">Bold</ToggleButton>
+      <ToggleButton value="italic">Italic</ToggleButton>
+      <ToggleButton value="underline">Underline</ToggleButton>
+    </ToggleButtonGroup>
+  ),
+};
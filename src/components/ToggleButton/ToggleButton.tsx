@@ -0,0 +1,95 @@
+import React from 'react';
+import type { ButtonColor, ButtonVariant } from '../Button/tokens';
+import type { ButtonSize } from '../Button/Button';
+import { responsiveClasses, type Responsive } from '../../tokens/breakpoints';
+import { useButtonStyle } from '../Button/useButtonStyle';
+import { useToggleButtonGroup } from './ToggleButtonGroupContext';
+import { useControllableState } from './useControllableState';
+import '../Button/Button.css';
+
+interface ToggleButtonOwnProps {
+  variant?:  ButtonVariant;
+  size?:     Responsive<ButtonSize>;
+  color?:    ButtonColor;
+  disabled?: boolean;
+  /** Identifies the button inside a ToggleButtonGroup. */
+  value?:    unknown;
+  /** Controlled pressed state. Ignored inside a ToggleButtonGroup. */
+  selected?: boolean;
+  /** Initial pressed state when uncontrolled. */
+  defaultSelected?: boolean;
+  onChange?: (selected: boolean) => void;
+  children?: React.ReactNode;
+}
+
+export type ToggleButtonProps =
+  ToggleButtonOwnProps &
+  Omit<React.ComponentPropsWithRef<'button'>, keyof ToggleButtonOwnProps>;
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * A button that stays pressed. Standalone it exposes `aria-pressed`; inside an
+ * exclusive ToggleButtonGroup it becomes a `radio` with `aria-checked` and a
+ * roving tabindex. Selected colors come from `buildVars(…, selected)`.
+ */
+export function ToggleButton({
+  variant:  variantProp,
+  size:     sizeProp,
+  color:    colorProp,
+  disabled: disabledProp,
+  value,
+  selected: selectedProp,
+  defaultSelected = false,
+  onChange,
+  children,
+  className: userClassName,
+  style:     userStyle,
+  onClick,
+  ...rest
+}: ToggleButtonProps) {
+  const group = useToggleButtonGroup();
+  const [ownSelected, setOwnSelected] = useControllableState(selectedProp, defaultSelected, onChange);
+
+  const variant  = variantProp  ?? group?.variant  ?? 'outlined';
+  const size     = sizeProp     ?? group?.size     ?? 'medium';
+  const color    = colorProp    ?? group?.color    ?? 'primary';
+  const disabled = disabledProp ?? group?.disabled ?? false;
+  const selected = group ? group.isSelected(value) : ownSelected;
+
+  const { classes: styleClasses, style } = useButtonStyle(variant, color, disabled, selected, userStyle);
+
+  const className = [
+    'btn',
+    `btn--${variant}`,
+    ...styleClasses,
+    ...responsiveClasses('btn', size, 'medium'),
+    'toggle-btn',
+    userClassName,
+  ].filter(Boolean).join(' ');
+
+  const a11yProps = group?.exclusive
+    ? { role: 'radio', 'aria-checked': selected, tabIndex: group.tabStop === value ? 0 : -1 }
+    : { 'aria-pressed': selected };
+
+  function handleClick(event: React.MouseEvent<HTMLButtonElement>) {
+    onClick?.(event);
+    if (event.defaultPrevented) return;
+    if (group) group.toggle(value);
+    else setOwnSelected(!ownSelected);
+  }
+
+  return (
+    <button
+      {...rest}
+      {...a11yProps}
+      type="button"
+      disabled={disabled}
+      className={className}
+      style={style}
+      onClick={handleClick}
+    >
+      {children}
+    </button>
+  );
+}
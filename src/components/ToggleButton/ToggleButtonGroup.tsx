@@ -0,0 +1,152 @@
+import React, { useMemo } from 'react';
+import { buildGroupVars, isStaticTheme, type ButtonColor, type ButtonVariant } from '../Button/tokens';
+import type { ButtonSize } from '../Button/Button';
+import type { ButtonGroupOrientation } from '../ButtonGroup/ButtonGroup';
+import type { Responsive } from '../../tokens/breakpoints';
+import { ToggleButtonGroupContext } from './ToggleButtonGroupContext';
+import { useControllableState } from './useControllableState';
+import { useStyling, useTheme } from '../Theme/ThemeContext';
+import '../Button/Button.css';
+import '../ButtonGroup/ButtonGroup.css';
+
+interface ToggleButtonGroupCommonProps {
+  variant?:     ButtonVariant;
+  size?:        Responsive<ButtonSize>;
+  color?:       ButtonColor;
+  disabled?:    boolean;
+  orientation?: ButtonGroupOrientation;
+  children?:    React.ReactNode;
+}
+
+/** One value at a time, like a radio group. Starts at `null` when nothing is picked. */
+interface ExclusiveProps<V> {
+  exclusive:     true;
+  value?:        V | null;
+  defaultValue?: V | null;
+  onChange?:     (value: V) => void;
+}
+
+/** Any number of values; clicking toggles membership. */
+interface MultipleProps<V> {
+  exclusive?:    false;
+  value?:        V[];
+  defaultValue?: V[];
+  onChange?:     (value: V[]) => void;
+}
+
+type ToggleButtonGroupModeProps<V> = ExclusiveProps<V> | MultipleProps<V>;
+
+export type ToggleButtonGroupProps<V> =
+  ToggleButtonGroupCommonProps &
+  ToggleButtonGroupModeProps<V> &
+  Omit<
+    React.ComponentPropsWithRef<'div'>,
+    keyof ToggleButtonGroupCommonProps | keyof ToggleButtonGroupModeProps<V>
+  >;
+
+/** `value` props of the direct, enabled ToggleButton children, in order. */
+function childValues(children: React.ReactNode): unknown[] {
+  return React.Children.toArray(children).flatMap(child =>
+    React.isValidElement<{ value?: unknown; disabled?: boolean }>(child) &&
+    child.props.value !== undefined && !child.props.disabled
+      ? [child.props.value]
+      : [],
+  );
+}
+
+// ─── Component ────────────────────────────────────────────────────────────────
+
+/**
+ * Joins ToggleButtons with the ButtonGroup look and manages their selection.
+ *
+ * - `exclusive`: a `radiogroup`. Only the selected button (or the first one,
+ *   before anything is picked) is a tab stop; arrow keys move focus and
+ *   selection together, wrapping at the ends.
+ * - otherwise: a `group` of independent `aria-pressed` buttons holding a
+ *   `V[]`; every button is a tab stop.
+ */
+export function ToggleButtonGroup<V>(props: ToggleButtonGroupProps<V>) {
+  const {
+    exclusive = false,
+    value,
+    defaultValue,
+    onChange,
+    variant     = 'outlined',
+    size        = 'medium',
+    color       = 'primary',
+    disabled    = false,
+    orientation = 'horizontal',
+    children,
+    className: userClassName,
+    style:     userStyle,
+    onKeyDown,
+    ...rest
+  } = props;
+
+  const [current, setCurrent] = useControllableState<V | null | V[]>(
+    value,
+    defaultValue ?? (exclusive ? null : []),
+    onChange as ((next: V | null | V[]) => void) | undefined,
+  );
+
+  const values  = childValues(children);
+  const tabStop = exclusive && current !== null && values.includes(current) ? current : values[0];
+
+  const context = useMemo(() => ({
+    exclusive,
+    tabStop,
+    variant, size, color, disabled,
+    isSelected: (v: unknown) =>
+      Array.isArray(current) ? current.includes(v as V) : current === v,
+    toggle: (v: unknown) => {
+      if (exclusive) {
+        setCurrent(v as V);
+      } else {
+        const list = Array.isArray(current) ? current : [];
+        setCurrent(list.includes(v as V) ? list.filter(x => x !== v) : [...list, v as V]);
+      }
+    },
+  }), [exclusive, tabStop, variant, size, color, disabled, current, setCurrent]);
+
+  function handleKeyDown(event: React.KeyboardEvent<HTMLDivElement>) {
+    onKeyDown?.(event);
+    if (!exclusive || event.defaultPrevented) return;
+
+    const delta = { ArrowRight: 1, ArrowDown: 1, ArrowLeft: -1, ArrowUp: -1 }[event.key];
+    if (!delta) return;
+
+    const radios  = Array.from(event.currentTarget.querySelectorAll<HTMLButtonElement>('[role="radio"]:not(:disabled)'));
+    const index   = radios.indexOf(document.activeElement as HTMLButtonElement);
+    if (index === -1) return;
+    event.preventDefault();
+    const next = radios[(index + delta + radios.length) % radios.length];
+    next.focus();
+    next.click();
+  }
+
+  const theme    = useTheme();
+  const isStatic = useStyling() === 'static' && isStaticTheme(theme);
+
+  const className = [
+    'btn-group',
+    `btn-group--${orientation}`,
+    `btn-group--${variant}`,
+    isStatic && `btn-group--${theme.colorScheme}`,
+    userClassName,
+  ].filter(Boolean).join(' ');
+
+  return (
+    <div
+      {...rest}
+      role={exclusive ? 'radiogroup' : 'group'}
+      aria-orientation={orientation === 'vertical' ? 'vertical' : undefined}
+      className={className}
+      style={isStatic ? userStyle : { ...buildGroupVars(theme), ...userStyle } as React.CSSProperties}
+      onKeyDown={handleKeyDown}
+    >
+      <ToggleButtonGroupContext.Provider value={context}>
+        {children}
+      </ToggleButtonGroupContext.Provider>
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+import { createContext, useContext } from 'react';
+import type { ButtonColor, ButtonVariant } from '../Button/tokens';
+import type { ButtonSize } from '../Button/Button';
+import type { Responsive } from '../../tokens/breakpoints';
+
+/** What a ToggleButtonGroup tells its ToggleButtons. Values are compared with `===`. */
+export interface ToggleButtonGroupContextValue {
+  exclusive:  boolean;
+  isSelected: (value: unknown) => boolean;
+  toggle:     (value: unknown) => void;
+  /** Exclusive mode: the one button that is in the tab order. */
+  tabStop?:   unknown;
+  variant?:   ButtonVariant;
+  size?:      Responsive<ButtonSize>;
+  color?:     ButtonColor;
+  disabled?:  boolean;
+}
+
+export const ToggleButtonGroupContext = createContext<ToggleButtonGroupContextValue | null>(null);
+
+export function useToggleButtonGroup(): ToggleButtonGroupContextValue | null {
+  return useContext(ToggleButtonGroupContext);
+}
@@ -0,0 +1,22 @@
+import { useCallback, useState } from 'react';
+
+/**
+ * State that is controlled when `value` is defined and internal otherwise.
+ * `setValue` always reports through `onChange`; it only updates the internal
+ * copy in uncontrolled mode.
+ */
+export function useControllableState<T>(
+  value:        T | undefined,
+  defaultValue: T,
+  onChange?:    (next: T) => void,
+): [T, (next: T) => void] {
+  const [internal, setInternal] = useState(defaultValue);
+  const controlled = value !== undefined;
+
+  const setValue = useCallback((next: T) => {
+    if (!controlled) setInternal(next);
+    onChange?.(next);
+  }, [controlled, onChange]);
+
+  return [controlled ? value : internal, setValue];
+}
@@ -0,0 +1,125 @@
+// ─── Roboto ───────────────────────────────────────────────────────────────────
+//
+// Self-hosted Roboto for the button typography (`--btn-font-family`), so the
+// rendered glyphs don't depend on what the machine has installed. The woff2
+// files come from @fontsource/roboto and are bundled with the app — no
+// third-party font CDN, and nothing for `font-src` beyond 'self'.
+//
+// Only the weights in use ship: 400 (menu items), 500 (button labels) and
+// 600 (the sub-brand example theme), in the latin and latin-ext subsets.
+//
+//   loadRoboto          registers the faces through the FontFace API — no
+//                       inline <style>, so it works under a strict CSP
+//   robotoFontFaceCss   the same faces as @font-face rules, for SSR or a
+//                       build step that writes a stylesheet
+//   preloadRoboto       <link rel="preload"> for the faces above the fold,
+//                       through React DOM's `preload` (works during SSR)
+
+import { preload } from 'react-dom';
+import latin400    from '@fontsource/roboto/files/roboto-latin-400-normal.woff2?url';
+import latin500    from '@fontsource/roboto/files/roboto-latin-500-normal.woff2?url';
+import latin600    from '@fontsource/roboto/files/roboto-latin-600-normal.woff2?url';
+import latinExt400 from '@fontsource/roboto/files/roboto-latin-ext-400-normal.woff2?url';
+import latinExt500 from '@fontsource/roboto/files/roboto-latin-ext-500-normal.woff2?url';
+import latinExt600 from '@fontsource/roboto/files/roboto-latin-ext-600-normal.woff2?url';
+
+export const ROBOTO_WEIGHTS = [400, 500, 600] as const;
+export type RobotoWeight = typeof ROBOTO_WEIGHTS[number];
+
+export type RobotoSubset = 'latin' | 'latin-ext';
+
+/** CSS `font-display`: how text renders while the face is loading. */
+export type FontDisplay = 'auto' | 'block' | 'swap' | 'fallback' | 'optional';
+
+export interface RobotoFace {
+  weight:       RobotoWeight;
+  subset:       RobotoSubset;
+  url:          string;
+  unicodeRange: string;
+}
+
+/** Character ranges of each subset, as published with the files. */
+const UNICODE_RANGES: Record<RobotoSubset, string> = {
+  'latin':
+    'U+0000-00FF,U+0131,U+0152-0153,U+02BB-02BC,U+02C6,U+02DA,U+02DC,U+0304,U+0308,U+0329,' +
+    'U+2000-206F,U+20AC,U+2122,U+2191,U+2193,U+2212,U+2215,U+FEFF,U+FFFD',
+  'latin-ext':
+    'U+0100-02BA,U+02BD-02C5,U+02C7-02CC,U+02CE-02D7,U+02DD-02FF,U+0304,U+0308,U+0329,' +
+    'U+1D00-1DBF,U+1E00-1E9F,U+1EF2-1EFF,U+2020,U+20A0-20AB,U+20AD-20C0,U+2113,U+2C60-2C7F,U+A720-A7FF',
+};
+
+const FILES: Record<RobotoSubset, Record<RobotoWeight, string>> = {
+  'latin':     { 400: latin400,    500: latin500,    600: latin600    },
+  'latin-ext': { 400: latinExt400, 500: latinExt500, 600: latinExt600 },
+};
+
+export const ROBOTO_FACES: RobotoFace[] = (Object.keys(FILES) as RobotoSubset[]).flatMap(subset =>
+  ROBOTO_WEIGHTS.map(weight => ({
+    weight,
+    subset,
+    url:          FILES[subset][weight],
+    unicodeRange: UNICODE_RANGES[subset],
+  })),
+);
+
+export interface RobotoOptions {
+  /** Defaults to `swap`: fallback text at once, Roboto when it arrives. */
+  display?: FontDisplay;
+  /** Defaults to every weight in ROBOTO_WEIGHTS. */
+  weights?: readonly RobotoWeight[];
+}
+
+const facesFor = (weights: readonly RobotoWeight[]) => ROBOTO_FACES.filter(f => weights.includes(f.weight));
+
+// ─── Loading ──────────────────────────────────────────────────────────────────
+
+/** Registered faces by url + display, so repeated calls don't add duplicates. */
+const registered = new Map<string, FontFace>();
+
+/**
+ * Adds the Roboto faces to `document.fonts` and starts loading them. Resolves
+ * when they have loaded; safe to call more than once. The browser still only
+ * downloads a subset once text in its unicode range is rendered — awaiting
+ * the promise forces every requested face.
+ */
+export function loadRoboto({ display = 'swap', weights = ROBOTO_WEIGHTS }: RobotoOptions = {}): Promise<FontFace[]> {
+  const faces = facesFor(weights).map(({ weight, url, unicodeRange }) => {
+    const key = `${url} ${display}`;
+    let face = registered.get(key);
+    if (!face) {
+      face = new FontFace('Roboto', `url(${url}) format('woff2')`, {
+        weight: String(weight), style: 'normal', display, unicodeRange,
+      });
+      document.fonts.add(face);
+      registered.set(key, face);
+    }
+    return face;
+  });
+  return Promise.all(faces.map(face => face.load()));
+}
+
+/** The faces as @font-face rules. */
+export function robotoFontFaceCss({ display = 'swap', weights = ROBOTO_WEIGHTS }: RobotoOptions = {}): string {
+  return facesFor(weights).map(({ weight, subset, url, unicodeRange }) => [
+    `/* roboto-${subset}-${weight} */`,
+    '@font-face {',
+    "  font-family: 'Roboto';",
+    '  font-style: normal;',
+    `  font-weight: ${weight};`,
+    `  font-display: ${display};`,
+    `  src: url(${url}) format('woff2');`,
+    `  unicode-range: ${unicodeRange};`,
+    '}',
+  ].join('\n')).join('\n\n') + '\n';
+}
+
+/**
+ * Preloads the latin files of `weights` (default: the 500 button labels) so
+ * they arrive with the page instead of after the first layout. Call it while
+ * rendering, e.g. in the app's root component.
+ */
+export function preloadRoboto(weights: readonly RobotoWeight[] = [500]): void {
+  for (const { url } of facesFor(weights).filter(f => f.subset === 'latin')) {
+    preload(url, { as: 'font', type: 'font/woff2', crossOrigin: 'anonymous' });
+  }
+}
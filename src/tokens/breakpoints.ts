@@ -0,0 +1,48 @@
+// ─── Breakpoints ──────────────────────────────────────────────────────────────
+//
+// Min-widths (px) shared by every responsive prop. The media queries in the
+// component stylesheets are written against these values — keep them in sync.
+
+export const BREAKPOINTS = {
+  xs: 0,
+  sm: 600,
+  md: 900,
+  lg: 1200,
+  xl: 1536,
+} as const;
+
+export type Breakpoint = keyof typeof BREAKPOINTS;
+
+/** Ascending order, the order responsive classes are emitted in. */
+export const BREAKPOINT_KEYS = Object.keys(BREAKPOINTS) as Breakpoint[];
+
+/**
+ * A prop that is either one value or a per-breakpoint map, mobile-first:
+ * `{ xs: 'large', md: 'medium' }` is large below 900px and medium from there up.
+ */
+export type Responsive<T> = T | Partial<Record<Breakpoint, T>>;
+
+function isBreakpointMap<T>(value: Responsive<T>): value is Partial<Record<Breakpoint, T>> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Turns a responsive value into modifier classes resolved by CSS media queries
+ * (no resize listeners, so server and client render the same markup):
+ * `xs` → `{block}--{name}`, other breakpoints → `{block}--{bp}-{name}`.
+ * `fallback` covers the range below the first breakpoint in the map.
+ */
+export function responsiveClasses<T>(
+  block:    string,
+  value:    Responsive<T>,
+  fallback: T,
+  name:     (v: T) => string = String,
+): string[] {
+  if (!isBreakpointMap(value)) return [`${block}--${name(value)}`];
+
+  return BREAKPOINT_KEYS.flatMap(bp => {
+    const v = bp === 'xs' ? value.xs ?? fallback : value[bp];
+    if (v === undefined) return [];
+    return bp === 'xs' ? [`${block}--${name(v)}`] : [`${block}--${bp}-${name(v)}`];
+  });
+}
@@ -0,0 +1,133 @@
+// my-design-system tokens v0.0.0
+// Generated by tests/build-tokens.ts — do not edit by hand.
+
+/** @type {import('tailwindcss').Config} */
+export default {
+  "theme": {
+    "extend": {
+      "colors": {
+        "primary": {
+          "DEFAULT": "#265DA5",
+          "hover": "#003476",
+          "contrast": "#FFFFFF"
+        },
+        "secondary": {
+          "DEFAULT": "#974D00",
+          "hover": "#642300",
+          "contrast": "#FFFFFF"
+        },
+        "error": {
+          "DEFAULT": "#BB0000",
+          "hover": "#830000",
+          "contrast": "#FFFFFF"
+        },
+        "warning": {
+          "DEFAULT": "#974D00",
+          "hover": "#642300",
+          "contrast": "#FFFFFF"
+        },
+        "info": {
+          "DEFAULT": "#0057D5",
+          "hover": "#002FA3",
+          "contrast": "#FFFFFF"
+        },
+        "success": {
+          "DEFAULT": "#007101",
+          "hover": "#004400",
+          "contrast": "#FFFFFF"
+        },
+        "disabled": {
+          "background": "rgba(0, 0, 0, 0.12)",
+          "border": "rgba(0, 0, 0, 0.12)",
+          "text": "rgba(0, 0, 0, 0.38)"
+        },
+        "dark": {
+          "primary": {
+            "DEFAULT": "#608AD7",
+            "hover": "#7AA1F1",
+            "contrast": "rgba(0, 0, 0, 0.87)"
+          },
+          "secondary": {
+            "DEFAULT": "#FFD249",
+            "hover": "#FFEB62",
+            "contrast": "rgba(0, 0, 0, 0.87)"
+          },
+          "error": {
+            "DEFAULT": "#FF745B",
+            "hover": "#FF8D71",
+            "contrast": "rgba(0, 0, 0, 0.87)"
+          },
+          "warning": {
+            "DEFAULT": "#FFD249",
+            "hover": "#FFEB62",
+            "contrast": "rgba(0, 0, 0, 0.87)"
+          },
+          "info": {
+            "DEFAULT": "#69A8FF",
+            "hover": "#85C0FF",
+            "contrast": "rgba(0, 0, 0, 0.87)"
+          },
+          "success": {
+            "DEFAULT": "#71FB88",
+            "hover": "#8DFFA0",
+            "contrast": "rgba(0, 0, 0, 0.87)"
+          },
+          "disabled": {
+            "background": "rgba(255,255,255,0.12)",
+            "border": "rgba(255,255,255,0.12)",
+            "text": "rgba(255, 255, 255, 0.3)"
+          }
+        }
+      },
+      "borderRadius": {
+        "button": "4px"
+      },
+      "boxShadow": {
+        "button-resting": "0px 3px 1px -2px rgba(0, 0, 0, 0.2), 0px 2px 2px 0px rgba(0, 0, 0, 0.14), 0px 1px 5px 0px rgba(0, 0, 0, 0.12)",
+        "button-hover": "0px 2px 4px -1px rgba(0, 0, 0, 0.2), 0px 4px 5px 0px rgba(0, 0, 0, 0.14), 0px 1px 10px 0px rgba(0, 0, 0, 0.12)",
+        "button-active": "0px 5px 5px -3px rgba(0, 0, 0, 0.2), 0px 8px 10px 1px rgba(0, 0, 0, 0.14), 0px 3px 14px 2px rgba(0, 0, 0, 0.12)"
+      },
+      "fontFamily": {
+        "button": [
+          "Roboto",
+          "sans-serif"
+        ]
+      },
+      "height": {
+        "button-xlarge": "48px",
+        "button-large": "42px",
+        "button-medium": "36px",
+        "button-small": "30px",
+        "button-xsmall": "24px"
+      },
+      "fontSize": {
+        "button-xlarge": [
+          "16px",
+          "28px"
+        ],
+        "button-large": [
+          "15px",
+          "26px"
+        ],
+        "button-medium": [
+          "14px",
+          "24px"
+        ],
+        "button-small": [
+          "13px",
+          "22px"
+        ],
+        "button-xsmall": [
+          "12px",
+          "18px"
+        ]
+      },
+      "screens": {
+        "sm": "600px",
+        "md": "900px",
+        "lg": "1200px",
+        "xl": "1536px"
+      }
+    }
+  }
+};
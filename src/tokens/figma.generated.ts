@@ -0,0 +1,88 @@
+// Generated by tests/sync-figma-tokens.ts — do not edit by hand.
+// Source: Figma file 0SGlWXx4nQMnLBUyMU7GZt (local variables + published styles).
+// DTCG version of the same tokens: figma.tokens.json
+
+export const FIGMA_TOKENS = {
+  color: {
+    primary: {
+      main: '#265DA5',
+      hover: '#003476',
+      contrastText: '#FFFFFF',
+    },
+    secondary: {
+      main: '#FFA100',
+      hover: '#C67200',
+      contrastText: '#FFFFFF',
+    },
+    error: {
+      main: '#FF3B30',
+      hover: '#C30005',
+      contrastText: '#FFFFFF',
+    },
+    warning: {
+      main: '#FFA100',
+      hover: '#C67200',
+      contrastText: '#FFFFFF',
+    },
+    info: {
+      main: '#007AFF',
+      hover: '#004FCB',
+      contrastText: '#FFFFFF',
+    },
+    success: {
+      main: '#34C759',
+      hover: '#00952B',
+      contrastText: '#FFFFFF',
+    },
+    disabled: {
+      text: 'rgba(0, 0, 0, 0.38)',
+      background: 'rgba(0, 0, 0, 0.12)',
+      border: 'rgba(0, 0, 0, 0.12)',
+    },
+    background: {
+      dark: '#121212',
+      default: '#FFFFFF',
+    },
+  },
+  radius: {
+    button: '4px',
+  },
+  opacity: {
+    hover: 0.04,
+  },
+  typography: {
+    button: {
+      large: {
+        fontFamily: 'Roboto',
+        fontWeight: 500,
+        fontSize: '15px',
+        lineHeight: '26px',
+        letterSpacing: '0.45px',
+        textTransform: 'uppercase',
+      },
+      medium: {
+        fontFamily: 'Roboto',
+        fontWeight: 500,
+        fontSize: '14px',
+        lineHeight: '24px',
+        letterSpacing: '0.42px',
+        textTransform: 'uppercase',
+      },
+      small: {
+        fontFamily: 'Roboto',
+        fontWeight: 500,
+        fontSize: '13px',
+        lineHeight: '22px',
+        letterSpacing: '0.39px',
+        textTransform: 'uppercase',
+      },
+    },
+  },
+  shadow: {
+    elevation: {
+      '2': '0px 3px 1px -2px rgba(0, 0, 0, 0.2), 0px 2px 2px 0px rgba(0, 0, 0, 0.14), 0px 1px 5px 0px rgba(0, 0, 0, 0.12)',
+      '4': '0px 2px 4px -1px rgba(0, 0, 0, 0.2), 0px 4px 5px 0px rgba(0, 0, 0, 0.14), 0px 1px 10px 0px rgba(0, 0, 0, 0.12)',
+      '8': '0px 5px 5px -3px rgba(0, 0, 0, 0.2), 0px 8px 10px 1px rgba(0, 0, 0, 0.14), 0px 3px 14px 2px rgba(0, 0, 0, 0.12)',
+    },
+  },
+} as const;
@@ -0,0 +1,70 @@
+// ─── Button size scale ────────────────────────────────────────────────────────
+//
+// Pixel metrics of the Button sizes. large / medium / small are the Figma
+// ones (node 1:1068); xlarge and xsmall extend the scale with the same
+// formula. Button.css and IconButton.css are written against these values —
+// keep them in sync; the token export (tests/build-tokens.ts) publishes them
+// for non-React apps.
+//
+//   height        rendered height, border included
+//   paddingY      vertical padding (Figma value − 1px for the 1px border)
+//   paddingX      horizontal padding of contained / outlined
+//   textPaddingX  horizontal padding of the text variant
+//   iconSize      IconButton glyph size (its box is `height` square)
+
+export interface ButtonSizeMetrics {
+  height:       number;
+  paddingY:     number;
+  paddingX:     number;
+  textPaddingX: number;
+  fontSize:     number;
+  lineHeight:   number;
+  iconSize:     number;
+}
+
+export const BUTTON_SIZES = {
+  xlarge: { height: 48, paddingY: 9, paddingX: 26, textPaddingX: 13, fontSize: 16, lineHeight: 28, iconSize: 28 },
+  large:  { height: 42, paddingY: 7, paddingX: 22, textPaddingX: 11, fontSize: 15, lineHeight: 26, iconSize: 24 },
+  medium: { height: 36, paddingY: 5, paddingX: 16, textPaddingX: 8,  fontSize: 14, lineHeight: 24, iconSize: 20 },
+  small:  { height: 30, paddingY: 3, paddingX: 10, textPaddingX: 5,  fontSize: 13, lineHeight: 22, iconSize: 18 },
+  xsmall: { height: 24, paddingY: 2, paddingX: 8,  textPaddingX: 4,  fontSize: 12, lineHeight: 18, iconSize: 16 },
+} as const satisfies Record<string, ButtonSizeMetrics>;
+
+export type ButtonSize = keyof typeof BUTTON_SIZES;
+
+/** The sizes drawn in the Figma file — the ones with reference images. */
+export const FIGMA_BUTTON_SIZES = ['large', 'medium', 'small'] as const satisfies readonly ButtonSize[];
+
+// ─── Density ──────────────────────────────────────────────────────────────────
+//
+// A density scales the padding of every size; font size and line height stay.
+// Vertical padding rounds down, horizontal to the nearest pixel, and the
+// height follows from the same border formula:
+//
+//   height = 2 × paddingY + lineHeight + 2 × BORDER_WIDTH
+//
+// Button.css applies the factors with CSS round() — keep them in sync.
+
+export type ButtonDensity = 'comfortable' | 'compact';
+
+/** Transparent border every size draws, absorbed by the padding. */
+export const BORDER_WIDTH = 1;
+
+export const BUTTON_DENSITIES = {
+  comfortable: { paddingY: 1,   paddingX: 1    },
+  compact:     { paddingY: 0.5, paddingX: 0.75 },
+} as const satisfies Record<ButtonDensity, { paddingY: number; paddingX: number }>;
+
+/** The metrics of `size` at `density`. */
+export function densityMetrics(size: ButtonSize, density: ButtonDensity): ButtonSizeMetrics {
+  const m = BUTTON_SIZES[size];
+  const scale = BUTTON_DENSITIES[density];
+  const paddingY = Math.floor(m.paddingY * scale.paddingY);
+  return {
+    ...m,
+    height:       2 * paddingY + m.lineHeight + 2 * BORDER_WIDTH,
+    paddingY,
+    paddingX:     Math.round(m.paddingX * scale.paddingX),
+    textPaddingX: Math.round(m.textPaddingX * scale.paddingX),
+  };
+}
@@ -0,0 +1,303 @@
+// ─── Color math ───────────────────────────────────────────────────────────────
+//
+// Small, dependency-free helpers used to derive button tokens from an arbitrary
+// CSS color and to check contrast:
+//
+//   parseColor        hex / rgb() / hsl() string → sRGB channels (0–255)
+//   parseAlpha        the alpha of the same strings (1 when there is none)
+//   toComputedColor   a color in getComputedStyle's rgb() / rgba() form
+//   darken            CIELAB lightness − 18 per step, the same operation as
+//                     chroma.js `darken()`; one step reproduces every Figma
+//                     hover shade in COLOR_TOKENS
+//   lighten           the inverse step; dark-scheme mains in DARK_COLOR_TOKENS
+//   contrastRatio     WCAG 2.x contrast ratio (1–21)
+//   apcaContrast      APCA lightness contrast Lc (about −108 to 106)
+//   pickContrastText  white or dark label text, whichever meets 4.5:1
+//   deltaE2000        CIEDE2000 perceptual difference (< 1 is invisible)
+//
+// Alpha is ignored by everything but parseAlpha: tokens are opaque colors, and
+// translucent ones (tints, disabled text) are flattened with `composite` first.
+
+export interface RGB { r: number; g: number; b: number }
+export interface Lab { l: number; a: number; b: number }
+
+/** Label colors offered by `pickContrastText`. */
+export const LIGHT_TEXT = '#ffffff';
+export const DARK_TEXT  = 'rgba(0, 0, 0, 0.87)';
+
+/** WCAG 2.x AA threshold for normal-size text. */
+export const AA_CONTRAST = 4.5;
+
+/** Lab lightness removed by one `darken` step (chroma.js `Kn`). */
+const DARKEN_STEP = 18;
+
+// D65 reference white
+const XN = 0.95047;
+const YN = 1;
+const ZN = 1.08883;
+
+// ─── Parsing & formatting ─────────────────────────────────────────────────────
+
+const HEX_RE = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FN_RE  = /^(rgba?|hsla?)\(\s*([^)]*)\)$/i;
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+/** Splits the arguments of rgb()/hsl() in both the comma and the space syntax. */
+function splitArgs(args: string): string[] {
+  return args.replace(/\s*\/\s*/, ' ').split(/[\s,]+/).filter(Boolean);
+}
+
+function channel(token: string): number | null {
+  const v = parseFloat(token);
+  if (Number.isNaN(v)) return null;
+  return clamp(token.endsWith('%') ? (v / 100) * 255 : v, 0, 255);
+}
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return { r: f(0) * 255, g: f(8) * 255, b: f(4) * 255 };
+}
+
+/**
+ * Parses `#rgb`, `#rgba`, `#rrggbb`, `#rrggbbaa`, `rgb()` / `rgba()` and
+ * `hsl()` / `hsla()` (comma or space syntax). Returns null for anything else,
+ * including named colors.
+ */
+export function parseColor(input: string): RGB | null {
+  const value = input.trim();
+
+  const hex = HEX_RE.exec(value);
+  if (hex) {
+    let digits = hex[1];
+    if (digits.length <= 4) digits = digits.split('').map(d => d + d).join('');
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16),
+    };
+  }
+
+  const fn = FN_RE.exec(value);
+  if (!fn) return null;
+  const args = splitArgs(fn[2]);
+  if (args.length < 3) return null;
+
+  if (fn[1].toLowerCase().startsWith('rgb')) {
+    const [r, g, b] = args.slice(0, 3).map(channel);
+    return r === null || g === null || b === null ? null : { r, g, b };
+  }
+
+  const h = parseFloat(args[0]);
+  const s = parseFloat(args[1]);
+  const l = parseFloat(args[2]);
+  if ([h, s, l].some(Number.isNaN)) return null;
+  return hslToRgb(((h % 360) + 360) % 360, clamp(s, 0, 100) / 100, clamp(l, 0, 100) / 100);
+}
+
+/** Alpha (0–1) of a color `parseColor` accepts; 1 when it has none or can't be parsed. */
+export function parseAlpha(input: string): number {
+  const value = input.trim();
+
+  const hex = HEX_RE.exec(value);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length === 4) return parseInt(digits[3] + digits[3], 16) / 255;
+    if (digits.length === 8) return parseInt(digits.slice(6), 16) / 255;
+    return 1;
+  }
+
+  const fn = FN_RE.exec(value);
+  const a  = fn ? splitArgs(fn[2])[3] : undefined;
+  if (a === undefined) return 1;
+  const v = parseFloat(a);
+  if (Number.isNaN(v)) return 1;
+  return clamp(a.endsWith('%') ? v / 100 : v, 0, 1);
+}
+
+/** `#RRGGBB`, rounding each channel. */
+export function toHex({ r, g, b }: RGB): string {
+  return '#' + [r, g, b]
+    .map(v => Math.round(clamp(v, 0, 255)).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase();
+}
+
+/**
+ * The color as `getComputedStyle` reports it: `rgb(r, g, b)`, or
+ * `rgba(r, g, b, a)` when translucent (`transparent` is `rgba(0, 0, 0, 0)`).
+ * Null when `parseColor` can't read it.
+ */
+export function toComputedColor(input: string): string | null {
+  if (input.trim() === 'transparent') return 'rgba(0, 0, 0, 0)';
+  const rgb = parseColor(input);
+  if (!rgb) return null;
+  const channels = [rgb.r, rgb.g, rgb.b].map(v => Math.round(clamp(v, 0, 255))).join(', ');
+  const alpha = parseAlpha(input);
+  return alpha < 1 ? `rgba(${channels}, ${Number(alpha.toFixed(4))})` : `rgb(${channels})`;
+}
+
+/** `R,G,B` — the format of the `rgb` field in COLOR_TOKENS, for rgba() tints. */
+export function toRgbChannels({ r, g, b }: RGB): string {
+  return [r, g, b].map(v => Math.round(clamp(v, 0, 255))).join(',');
+}
+
+// ─── CIELAB ───────────────────────────────────────────────────────────────────
+
+const toLinear   = (c: number) => (c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4);
+const fromLinear = (c: number) => (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+
+const labF    = (t: number) => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+const labFInv = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+
+export function rgbToLab({ r, g, b }: RGB): Lab {
+  const lr = toLinear(r / 255);
+  const lg = toLinear(g / 255);
+  const lb = toLinear(b / 255);
+  const fx = labF((0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / XN);
+  const fy = labF((0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb) / YN);
+  const fz = labF((0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / ZN);
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/** Inverse of `rgbToLab`; out-of-gamut results are clipped per channel. */
+export function labToRgb({ l, a, b }: Lab): RGB {
+  const fy = (l + 16) / 116;
+  const x  = labFInv(fy + a / 500) * XN;
+  const y  = labFInv(fy) * YN;
+  const z  = labFInv(fy - b / 200) * ZN;
+  const encode = (c: number) => fromLinear(clamp(c, 0, 1)) * 255;
+  return {
+    r: encode( 3.2404542 * x - 1.5371385 * y - 0.4985314 * z),
+    g: encode(-0.9692660 * x + 1.8760108 * y + 0.0415560 * z),
+    b: encode( 0.0556434 * x - 0.2040259 * y + 1.0572252 * z),
+  };
+}
+
+/** Lowers Lab lightness by 18 per step, keeping a and b (chroma.js `darken`). */
+export function darken(color: RGB, steps = 1): RGB {
+  const lab = rgbToLab(color);
+  return labToRgb({ ...lab, l: lab.l - DARKEN_STEP * steps });
+}
+
+/** Raises Lab lightness by 18 per step (chroma.js `brighten`). */
+export function lighten(color: RGB, steps = 1): RGB {
+  return darken(color, -steps);
+}
+
+// ─── CIEDE2000 ────────────────────────────────────────────────────────────────
+
+const rad = (deg: number) => (deg * Math.PI) / 180;
+const deg = (r: number) => (((r * 180) / Math.PI) % 360 + 360) % 360;
+
+/** CIEDE2000 color difference (kL = kC = kH = 1). */
+export function deltaE2000(x: Lab, y: Lab): number {
+  const c1 = Math.hypot(x.a, x.b);
+  const c2 = Math.hypot(y.a, y.b);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+
+  const a1 = (1 + g) * x.a;
+  const a2 = (1 + g) * y.a;
+  const c1p = Math.hypot(a1, x.b);
+  const c2p = Math.hypot(a2, y.b);
+  const h1p = c1p === 0 ? 0 : deg(Math.atan2(x.b, a1));
+  const h2p = c2p === 0 ? 0 : deg(Math.atan2(y.b, a2));
+
+  const dL = y.l - x.l;
+  const dC = c2p - c1p;
+  let dh = 0;
+  if (c1p * c2p !== 0) {
+    dh = h2p - h1p;
+    if (dh > 180) dh -= 360;
+    else if (dh < -180) dh += 360;
+  }
+  const dH = 2 * Math.sqrt(c1p * c2p) * Math.sin(rad(dh / 2));
+
+  const lMean = (x.l + y.l) / 2;
+  const cMean = (c1p + c2p) / 2;
+  let hMean = h1p + h2p;
+  if (c1p * c2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) hMean /= 2;
+    else hMean = h1p + h2p < 360 ? (hMean + 360) / 2 : (hMean - 360) / 2;
+  }
+
+  const t = 1
+    - 0.17 * Math.cos(rad(hMean - 30))
+    + 0.24 * Math.cos(rad(2 * hMean))
+    + 0.32 * Math.cos(rad(3 * hMean + 6))
+    - 0.20 * Math.cos(rad(4 * hMean - 63));
+  const dTheta = 30 * Math.exp(-(((hMean - 275) / 25) ** 2));
+  const rc = 2 * Math.sqrt(cMean ** 7 / (cMean ** 7 + 25 ** 7));
+  const sl = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sc = 1 + 0.045 * cMean;
+  const sh = 1 + 0.015 * cMean * t;
+  const rt = -Math.sin(rad(2 * dTheta)) * rc;
+
+  return Math.sqrt(
+    (dL / sl) ** 2 + (dC / sc) ** 2 + (dH / sh) ** 2 + rt * (dC / sc) * (dH / sh),
+  );
+}
+
+// ─── WCAG contrast ────────────────────────────────────────────────────────────
+
+/** WCAG 2.x relative luminance (0 = black, 1 = white). */
+export function relativeLuminance({ r, g, b }: RGB): number {
+  return 0.2126 * toLinear(r / 255) + 0.7152 * toLinear(g / 255) + 0.0722 * toLinear(b / 255);
+}
+
+/** WCAG 2.x contrast ratio between two opaque colors, 1–21. */
+export function contrastRatio(x: RGB, y: RGB): number {
+  const lx = relativeLuminance(x);
+  const ly = relativeLuminance(y);
+  return (Math.max(lx, ly) + 0.05) / (Math.min(lx, ly) + 0.05);
+}
+
+// ─── APCA ─────────────────────────────────────────────────────────────────────
+
+/** Screen luminance as APCA-W3 0.0.98G-4g estimates it (plain 2.4 gamma). */
+function apcaLuminance({ r, g, b }: RGB): number {
+  const y = 0.2126729 * (r / 255) ** 2.4 + 0.7151522 * (g / 255) ** 2.4 + 0.0721750 * (b / 255) ** 2.4;
+  // Soft clamp near black
+  return y >= 0.022 ? y : y + (0.022 - y) ** 1.414;
+}
+
+/**
+ * APCA lightness contrast (Lc) of `text` on `background`, both opaque.
+ * Positive for dark text on a light background, negative for light on dark;
+ * |Lc| 60 is roughly WCAG's 4.5:1 for body text, 45 for large text.
+ */
+export function apcaContrast(text: RGB, background: RGB): number {
+  const yText = apcaLuminance(text);
+  const yBg   = apcaLuminance(background);
+  if (Math.abs(yBg - yText) < 0.0005) return 0;
+
+  if (yBg > yText) {
+    const sapc = (yBg ** 0.56 - yText ** 0.57) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (yBg ** 0.65 - yText ** 0.62) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+/** `fg` at `alpha` painted over an opaque `bg`. */
+export function composite(fg: RGB, alpha: number, bg: RGB): RGB {
+  return {
+    r: fg.r * alpha + bg.r * (1 - alpha),
+    g: fg.g * alpha + bg.g * (1 - alpha),
+    b: fg.b * alpha + bg.b * (1 - alpha),
+  };
+}
+
+/**
+ * Label color for a filled background: white when it reaches 4.5:1, otherwise
+ * whichever of white and 87%-black contrasts more.
+ */
+export function pickContrastText(background: RGB): string {
+  const white = contrastRatio({ r: 255, g: 255, b: 255 }, background);
+  if (white >= AA_CONTRAST) return LIGHT_TEXT;
+  const dark = contrastRatio(composite({ r: 0, g: 0, b: 0 }, 0.87, background), background);
+  return dark > white ? DARK_TEXT : LIGHT_TEXT;
+}
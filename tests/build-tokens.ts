@@ -0,0 +1,64 @@
+/**
+ * Builds the design tokens for apps that don't use the React components.
+ *
+ * Writes CSS custom properties, SCSS variables/maps, flat JSON and a Tailwind
+ * preset to src/tokens/build/ from the same palette, theme and size scale the
+ * components use, plus src/components/Button/Button.static.css for
+ * `<ThemeProvider styling="static">`. The files are committed, so a token
+ * change shows up in review as a diff of them.
+ *
+ * Run after changing tokens (or after `npm run sync-figma-tokens`):
+ *   npx tsx tests/build-tokens.ts
+ *   npx tsx tests/build-tokens.ts --check   # exit 1 if the files are stale
+ */
+
+import fs   from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { buildTokenFiles } from './utils/token-formats';
+import { renderStaticStyles } from './utils/static-styles';
+
+export const TOKENS_BUILD_DIR  = path.join(process.cwd(), 'src', 'tokens', 'build');
+export const STATIC_STYLES_FILE = path.join(process.cwd(), 'src', 'components', 'Button', 'Button.static.css');
+
+/** The package version, stamped into every file. */
+export function packageVersion(): string {
+  const pkg = JSON.parse(fs.readFileSync(path.join(process.cwd(), 'package.json'), 'utf8'));
+  return pkg.version as string;
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+function main() {
+  const check = process.argv.includes('--check');
+  const version = packageVersion();
+  const files: Record<string, string> = Object.fromEntries([
+    ...Object.entries(buildTokenFiles(version)).map(([name, contents]) => [path.join(TOKENS_BUILD_DIR, name), contents]),
+    [STATIC_STYLES_FILE, renderStaticStyles(version)],
+  ]);
+
+  const stale = Object.entries(files).filter(([file, contents]) =>
+    !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== contents);
+
+  if (check) {
+    if (stale.length === 0) {
+      console.log('Token build is up to date.');
+      return;
+    }
+    console.error(`Stale token files: ${stale.map(([file]) => path.relative(process.cwd(), file)).join(', ')}`);
+    console.error('Run: npx tsx tests/build-tokens.ts');
+    process.exit(1);
+  }
+
+  fs.mkdirSync(TOKENS_BUILD_DIR, { recursive: true });
+  for (const [file, contents] of Object.entries(files)) {
+    fs.writeFileSync(file, contents);
+    const mark = stale.some(([s]) => s === file) ? 'updated' : 'unchanged';
+    console.log(`  ${path.relative(process.cwd(), file).padEnd(42)} ${mark}`);
+  }
+}
+
+// Only execute when run directly (not when imported by the tests)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main();
+}
@@ -0,0 +1,140 @@
+import { test, expect } from '@playwright/test';
+import { openStory, css } from './utils/storybook';
+import { BUTTON_VARIANTS as VARIANTS } from '../src/components/Button/manifest';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const STORIES = [
+  { id: 'components-buttongroup--playground',      name: 'Playground',      minButtons: 3  },
+  { id: 'components-buttongroup--variants',        name: 'Variants',        minButtons: 9  },
+  { id: 'components-buttongroup--vertical',        name: 'Vertical',        minButtons: 9  },
+  { id: 'components-buttongroup--all-colors',      name: 'All Colors',      minButtons: 36 },
+  { id: 'components-buttongroup--child-overrides', name: 'Child Overrides', minButtons: 3  },
+  { id: 'components-buttongroup--disabled',        name: 'Disabled',        minButtons: 9  },
+] as const;
+
+// ─── 1. All stories load ──────────────────────────────────────────────────────
+
+test.describe('ButtonGroup stories — all variants visible', () => {
+  for (const story of STORIES) {
+    test(`${story.name} renders ≥ ${story.minButtons} button(s)`, async ({ page }) => {
+      await openStory(page, story.id);
+      const buttons = page.locator('.btn-group .btn');
+      await expect(buttons.first()).toBeVisible();
+      expect(await buttons.count()).toBeGreaterThanOrEqual(story.minButtons);
+    });
+  }
+});
+
+// ─── 2. Shared props through context ─────────────────────────────────────────
+
+test.describe('ButtonGroup shared props', () => {
+  for (const variant of VARIANTS) {
+    test(`variant=${variant} reaches every child`, async ({ page }) => {
+      await openStory(page, 'components-buttongroup--playground', { variant });
+      const buttons = page.locator('.btn-group .btn');
+      for (const btn of await buttons.all()) {
+        await expect(btn).toHaveClass(new RegExp(`btn--${variant}`));
+      }
+    });
+  }
+
+  test('size and color reach every child', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--playground', { variant: 'contained', size: 'large', color: 'error' });
+    for (const btn of await page.locator('.btn-group .btn').all()) {
+      expect((await btn.boundingBox())?.height).toBe(42);
+      expect(await css(btn, 'background-color')).toBe('rgb(187, 0, 0)');
+    }
+  });
+
+  test('disabled group disables every child', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--playground', { disabled: 'true' });
+    for (const btn of await page.locator('.btn-group .btn').all()) {
+      await expect(btn).toBeDisabled();
+    }
+  });
+
+  test('child props override the group', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--child-overrides');
+    const [save, publish, del] = await page.locator('.btn-group .btn').all();
+    expect(await css(save, 'color')).toBe('rgb(38, 93, 165)');
+    await expect(publish).toBeDisabled();
+    expect(await css(del, 'color')).toBe('rgb(187, 0, 0)');
+  });
+});
+
+// ─── 3. Attached borders and radii ───────────────────────────────────────────
+
+test.describe('ButtonGroup joins', () => {
+  test('horizontal — only the outer corners are rounded', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--playground');
+    const [first, middle, last] = await page.locator('.btn-group .btn').all();
+    expect(await css(first,  'border-top-left-radius')).toBe('4px');
+    expect(await css(first,  'border-top-right-radius')).toBe('0px');
+    expect(await css(middle, 'border-top-left-radius')).toBe('0px');
+    expect(await css(middle, 'border-top-right-radius')).toBe('0px');
+    expect(await css(last,   'border-top-left-radius')).toBe('0px');
+    expect(await css(last,   'border-top-right-radius')).toBe('4px');
+  });
+
+  test('horizontal outlined — one 50%-opacity border per join', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--playground', { variant: 'outlined' });
+    const [first, second] = await page.locator('.btn-group .btn').all();
+    expect(await css(first,  'border-right-color')).toBe('rgba(0, 0, 0, 0)');
+    expect(await css(second, 'border-left-color')).toBe('rgba(38, 93, 165, 0.5)');
+    const a = await first.boundingBox();
+    const b = await second.boundingBox();
+    // Buttons overlap by exactly one border width
+    expect(b!.x).toBe(a!.x + a!.width - 1);
+  });
+
+  test('vertical — stacked, only the outer corners are rounded', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--playground', { orientation: 'vertical', variant: 'outlined' });
+    await expect(page.getByRole('group')).toHaveAttribute('aria-orientation', 'vertical');
+    const [first, second] = await page.locator('.btn-group .btn').all();
+    expect(await css(first,  'border-bottom-left-radius')).toBe('0px');
+    expect(await css(first,  'border-bottom-color')).toBe('rgba(0, 0, 0, 0)');
+    expect(await css(second, 'border-top-left-radius')).toBe('0px');
+    const a = await first.boundingBox();
+    const b = await second.boundingBox();
+    expect(b!.y).toBe(a!.y + a!.height - 1);
+  });
+});
+
+// ─── 4. Keyboard ─────────────────────────────────────────────────────────────
+
+test.describe('ButtonGroup keyboard', () => {
+  test('has role=group with a label and every button is a tab stop', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--playground');
+    await expect(page.getByRole('group', { name: 'Text alignment' })).toBeVisible();
+    const buttons = await page.locator('.btn-group .btn').all();
+    await buttons[0].focus();
+    await page.keyboard.press('Tab');
+    await expect(buttons[1]).toBeFocused();
+    await page.keyboard.press('Tab');
+    await expect(buttons[2]).toBeFocused();
+  });
+
+  test('the focused button is raised above its neighbours', async ({ page }) => {
+    await openStory(page, 'components-buttongroup--playground');
+    const buttons = await page.locator('.btn-group .btn').all();
+    await buttons[0].focus();
+    await page.keyboard.press('Tab');
+    expect(await css(buttons[1], 'z-index')).toBe('1');
+  });
+});
+
+// ─── 5. Visual snapshots ─────────────────────────────────────────────────────
+
+test.describe('ButtonGroup visual snapshots', () => {
+  for (const story of STORIES) {
+    test(`${story.name}`, async ({ page }) => {
+      await openStory(page, story.id);
+      await page.waitForTimeout(200);
+      await expect(page).toHaveScreenshot(`story-${story.id}.png`, {
+        fullPage: false,
+        animations: 'disabled',
+      });
+    });
+  }
+});
@@ -0,0 +1,207 @@
+import { test, expect } from '@playwright/test';
+import {
+  parseColor, toHex, darken, lighten, rgbToLab, deltaE2000,
+  contrastRatio, pickContrastText, parseAlpha, apcaContrast, toComputedColor, LIGHT_TEXT, DARK_TEXT,
+} from '../src/utils/color';
+import { FIGMA_TOKENS } from '../src/tokens/figma.generated';
+import { COLOR_TOKENS, DARK_COLOR_TOKENS, DEFAULT_THEME, DARK_THEME, resolveColorTokens, buildVars } from '../src/components/Button/tokens';
+
+// Pure unit tests — no page, no Storybook.
+
+/** Largest CIEDE2000 difference accepted between a computed and a Figma color. */
+const MAX_DELTA_E = 1;
+
+// ─── 1. Parsing ───────────────────────────────────────────────────────────────
+
+test.describe('parseColor', () => {
+  const CASES = [
+    { input: '#265DA5',                  hex: '#265DA5' },
+    { input: '#abc',                     hex: '#AABBCC' },
+    { input: '#abcd',                    hex: '#AABBCC' },
+    { input: '#265da580',                hex: '#265DA5' },
+    { input: 'rgb(38, 93, 165)',         hex: '#265DA5' },
+    { input: 'rgba(38,93,165,0.5)',      hex: '#265DA5' },
+    { input: 'rgb(38 93 165 / 50%)',     hex: '#265DA5' },
+    { input: 'rgb(100%, 0%, 0%)',        hex: '#FF0000' },
+    { input: 'hsl(210, 100%, 50%)',      hex: '#0080FF' },
+    { input: 'hsl(120deg 100% 25%)',     hex: '#008000' },
+    { input: 'hsla(0, 0%, 100%, 0.3)',   hex: '#FFFFFF' },
+  ] as const;
+
+  for (const { input, hex } of CASES) {
+    test(`${input} → ${hex}`, () => {
+      const rgb = parseColor(input);
+      expect(rgb).not.toBeNull();
+      expect(toHex(rgb!)).toBe(hex);
+    });
+  }
+
+  for (const input of ['red', '#12', 'rgb(1, 2)', 'var(--x)', '']) {
+    test(`"${input}" is rejected`, () => {
+      expect(parseColor(input)).toBeNull();
+    });
+  }
+
+  test('toComputedColor matches getComputedStyle serialization', () => {
+    expect(toComputedColor('#265DA5')).toBe('rgb(38, 93, 165)');
+    expect(toComputedColor('rgba(38,93,165, 0.5)')).toBe('rgba(38, 93, 165, 0.5)');
+    expect(toComputedColor(DARK_TEXT)).toBe('rgba(0, 0, 0, 0.87)');
+    expect(toComputedColor('hsl(0, 0%, 100%)')).toBe('rgb(255, 255, 255)');
+    expect(toComputedColor('transparent')).toBe('rgba(0, 0, 0, 0)');
+    expect(toComputedColor('var(--x)')).toBeNull();
+  });
+});
+
+// ─── 2. Derived palettes ─────────────────────────────────────────────────────
+
+/** The Figma color entries behind each palette color. */
+const FIGMA_PALETTE = Object.fromEntries(Object.keys(COLOR_TOKENS).map(name => [
+  name, FIGMA_TOKENS.color[name as keyof typeof COLOR_TOKENS],
+]));
+
+test.describe('darken reproduces the Figma hover tokens', () => {
+  for (const [name, { main, hover }] of Object.entries(FIGMA_PALETTE)) {
+    test(`${name}: darken(${main}) ≈ ${hover}`, () => {
+      const computed = darken(parseColor(main)!);
+      const figma    = parseColor(hover)!;
+      expect(deltaE2000(rgbToLab(computed), rgbToLab(figma))).toBeLessThan(MAX_DELTA_E);
+      expect(toHex(computed)).toBe(hover);
+    });
+  }
+});
+
+test.describe('light palette', () => {
+  const WHITE = parseColor('#FFFFFF')!;
+
+  for (const [name, { main, hover, contrastText }] of Object.entries(COLOR_TOKENS)) {
+    const figma = FIGMA_PALETTE[name];
+
+    test(`${name}: the Figma main, or just dark enough for AA (${main})`, () => {
+      expect(contrastText).toBe(figma.contrastText);
+      expect(contrastRatio(parseColor(main)!, WHITE)).toBeGreaterThanOrEqual(4.5);
+      if (main === figma.main) {
+        expect(hover).toBe(figma.hover);
+      } else {
+        expect(toHex(darken(parseColor(main)!))).toBe(hover);
+        expect(contrastRatio(parseColor(figma.main)!, WHITE)).toBeLessThan(4.5);
+      }
+    });
+  }
+});
+
+test.describe('dark palette', () => {
+  for (const [name, { main, hover, contrastText }] of Object.entries(DARK_COLOR_TOKENS)) {
+    const figma = FIGMA_PALETTE[name];
+
+    test(`${name}: one lighten step above ${figma.main}, hover half a step above that`, () => {
+      expect(toHex(lighten(parseColor(figma.main)!))).toBe(main);
+      expect(toHex(lighten(parseColor(main)!, 0.5))).toBe(hover);
+    });
+
+    test(`${name}: label passes AA on the dark main and hover`, () => {
+      expect(contrastText).toBe(pickContrastText(parseColor(main)!));
+      expect(contrastText).toBe(pickContrastText(parseColor(hover)!));
+    });
+  }
+});
+
+// ─── 3. CIEDE2000 ────────────────────────────────────────────────────────────
+
+test.describe('deltaE2000', () => {
+  // Reference pairs from Sharma, Wu & Dalal (2005), "The CIEDE2000 color-difference formula".
+  const PAIRS = [
+    { x: { l: 50, a: 2.6772, b: -79.7751 }, y: { l: 50, a: 0,       b: -82.7485 }, expected: 2.0425  },
+    { x: { l: 50, a: 2.5,    b: 0        }, y: { l: 73, a: 25,      b: -18      }, expected: 27.1492 },
+    { x: { l: 50, a: 2.5,    b: 0        }, y: { l: 50, a: 3.2592,  b: 0.335    }, expected: 1.0000  },
+    { x: { l: 60.2574, a: -34.0099, b: 36.2677 }, y: { l: 60.4626, a: -34.1751, b: 39.4387 }, expected: 1.2644 },
+  ];
+
+  for (const { x, y, expected } of PAIRS) {
+    test(`ΔE00 = ${expected}`, () => {
+      expect(deltaE2000(x, y)).toBeCloseTo(expected, 4);
+      expect(deltaE2000(y, x)).toBeCloseTo(expected, 4);
+    });
+  }
+
+  test('identical colors differ by 0', () => {
+    const lab = rgbToLab(parseColor('#265DA5')!);
+    expect(deltaE2000(lab, lab)).toBe(0);
+  });
+});
+
+// ─── 4. Contrast ─────────────────────────────────────────────────────────────
+
+test.describe('contrast', () => {
+  test('black on white is 21:1', () => {
+    expect(contrastRatio({ r: 0, g: 0, b: 0 }, { r: 255, g: 255, b: 255 })).toBeCloseTo(21, 5);
+  });
+
+  test('dark backgrounds get white text, light ones dark text', () => {
+    expect(pickContrastText(parseColor('#7B1FA2')!)).toBe(LIGHT_TEXT);
+    expect(pickContrastText(parseColor('#265DA5')!)).toBe(LIGHT_TEXT);
+    expect(pickContrastText(parseColor('#FFEB3B')!)).toBe(DARK_TEXT);
+    expect(pickContrastText(parseColor('#34C759')!)).toBe(DARK_TEXT);
+  });
+
+  test('parseAlpha reads hex, rgba() and slash alpha', () => {
+    expect(parseAlpha('#265DA5')).toBe(1);
+    expect(parseAlpha('#0008')).toBeCloseTo(0.533, 3);
+    expect(parseAlpha('#265da580')).toBeCloseTo(0.502, 3);
+    expect(parseAlpha(DARK_TEXT)).toBe(0.87);
+    expect(parseAlpha('rgb(38 93 165 / 50%)')).toBe(0.5);
+    expect(parseAlpha('transparent')).toBe(1);
+  });
+
+  test('APCA matches the reference implementation', () => {
+    const white = { r: 255, g: 255, b: 255 };
+    const black = { r: 0, g: 0, b: 0 };
+    expect(apcaContrast(black, white)).toBeCloseTo(106.04, 2);
+    expect(apcaContrast(white, black)).toBeCloseTo(-107.88, 2);
+    expect(apcaContrast(parseColor('#888')!, white)).toBeCloseTo(63.06, 2);
+    expect(apcaContrast(white, white)).toBe(0);
+  });
+});
+
+// ─── 5. Token resolution ─────────────────────────────────────────────────────
+
+test.describe('resolveColorTokens', () => {
+  test('palette names keep their Figma tokens', () => {
+    for (const [name, tokens] of Object.entries(COLOR_TOKENS)) {
+      expect(resolveColorTokens(name)).toEqual(tokens);
+    }
+  });
+
+  test('custom colors get computed hover, channels and label color', () => {
+    expect(resolveColorTokens('rgb(123, 31, 162)')).toEqual({
+      main:         '#7B1FA2',
+      hover:        toHex(darken({ r: 123, g: 31, b: 162 })),
+      rgb:          '123,31,162',
+      contrastText: LIGHT_TEXT,
+    });
+  });
+
+  test('an unsupported color falls back to primary and warns once', () => {
+    const warn = console.warn;
+    const warnings: unknown[] = [];
+    console.warn = (message: unknown) => { warnings.push(message); };
+    try {
+      for (let i = 0; i < 3; i++) expect(resolveColorTokens('not-a-color')).toEqual(COLOR_TOKENS.primary);
+    } finally {
+      console.warn = warn;
+    }
+    expect(warnings).toEqual([expect.stringContaining('Unsupported color "not-a-color"')]);
+  });
+
+  test('buildVars accepts a custom color', () => {
+    const vars = buildVars(DEFAULT_THEME, 'outlined', '#FFEB3B', false);
+    expect(vars['--btn-color']).toBe('#FFEB3B');
+    expect(vars['--btn-border']).toBe('rgba(255,235,59, 0.5)');
+    expect(buildVars(DEFAULT_THEME, 'contained', '#FFEB3B', false)['--btn-color']).toBe(DARK_TEXT);
+  });
+
+  test('buildVars uses the theme\'s tint strengths', () => {
+    expect(buildVars(DEFAULT_THEME, 'text', 'primary', false)['--btn-hover-bg']).toBe('rgba(38,93,165, 0.04)');
+    expect(buildVars(DARK_THEME,    'text', 'primary', false)['--btn-hover-bg']).toBe('rgba(96,138,215, 0.08)');
+    expect(buildVars(DARK_THEME,    'outlined', 'primary', true)['--btn-disabled-border']).toBe('rgba(255,255,255,0.12)');
+  });
+});
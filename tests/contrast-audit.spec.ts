@@ -0,0 +1,146 @@
+import { test, expect } from '@playwright/test';
+import {
+  auditContrast, formatReport, STATES, VARIANTS, validateAllowlist,
+  type AuditConfig, type ContrastLevels,
+} from './utils/contrast-audit';
+import { loadAuditConfig } from './contrast-audit';
+import { mergeTheme } from '../src/components/Theme/mergeTheme';
+import { DEFAULT_THEME } from '../src/components/Button/tokens';
+
+// Pure unit tests — no page, no Storybook.
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const AA: ContrastLevels = { text: 4.5, nonText: 3, disabled: null, apca: null };
+
+const audit = (config: Partial<AuditConfig> = {}, colors?: string[]) =>
+  auditContrast({ levels: AA, allowlist: [], ...config }, { colors });
+
+const result = (report: ReturnType<typeof audit>, id: string) => report.results.find(r => r.id === id)!;
+
+// ─── 1. Gate ──────────────────────────────────────────────────────────────────
+
+test.describe('Contrast gate', () => {
+  const report = auditContrast(loadAuditConfig());
+
+  test('nothing below the configured level outside the allowlist', () => {
+    const failing = report.results.filter(r => r.status === 'fail');
+    expect(failing.map(r => r.id), formatReport({ results: failing, unusedAllowlist: [] })).toEqual([]);
+  });
+
+  test('every allowlist entry still matches a failing combination', () => {
+    expect(report.unusedAllowlist.map(e => e.id)).toEqual([]);
+  });
+
+  test('covers every variant × palette color × state in both schemes', () => {
+    const colors = Object.keys(DEFAULT_THEME.palette).length;
+    expect(report.results).toHaveLength(2 * VARIANTS.length * colors * STATES.length);
+  });
+});
+
+// ─── 2. Measuring ─────────────────────────────────────────────────────────────
+
+test.describe('Measuring', () => {
+  const report = audit();
+
+  test('contained primary: white label on #265DA5', () => {
+    const r = result(report, 'light/contained/primary/enabled');
+    expect([r.foreground, r.background]).toEqual(['#FFFFFF', '#265DA5']);
+    expect(r.ratio).toBeCloseTo(6.58, 2);
+    expect(r.status).toBe('pass');
+  });
+
+  test('transparent surfaces are measured on the page background', () => {
+    expect(result(report, 'light/outlined/primary/enabled').background).toBe('#FFFFFF');
+    expect(result(report, 'dark/text/primary/enabled').background).toBe('#121212');
+  });
+
+  test('hover tints are flattened onto the page', () => {
+    // rgba(38,93,165,0.04) over white
+    expect(result(report, 'light/text/primary/hover').background).toBe('#F6F9FB');
+  });
+
+  test('a translucent label is flattened onto its surface', () => {
+    // rgba(0, 0, 0, 0.87) over the dark primary #608AD7
+    expect(result(report, 'dark/contained/primary/enabled').foreground).toBe('#0C121C');
+  });
+
+  test('selected states are measured on the selected surfaces', () => {
+    // Contained sits on its hover shade; outlined / text on the selected tints
+    expect(result(report, 'light/contained/primary/selected').background).toBe('#003476');
+    expect(result(report, 'light/outlined/primary/selected').background)
+      .not.toBe(result(report, 'light/outlined/primary/enabled').background);
+    const dark = ['selected', 'selectedHover', 'selectedActive'].map(s => result(report, `dark/text/primary/${s}`));
+    expect(dark.map(r => r.status)).toEqual(['pass', 'pass', 'pass']);
+  });
+
+  test('focus ring is measured against the page at the non-text level', () => {
+    const r = result(report, 'light/outlined/primary/focus');
+    expect([r.foreground, r.background, r.required]).toEqual(['#265DA5', '#FFFFFF', 3]);
+  });
+
+  test('disabled is exempt unless a level is configured', () => {
+    expect(result(report, 'light/contained/primary/disabled').status).toBe('exempt');
+    const strict = audit({ levels: { ...AA, disabled: 4.5 } });
+    expect(result(strict, 'light/contained/primary/disabled').status).toBe('fail');
+  });
+
+  test('custom colors and theme overrides are audited as they render', () => {
+    expect(result(audit({}, ['#7B1FA2']), 'light/contained/#7B1FA2/enabled').status).toBe('pass');
+
+    const theme = mergeTheme(DEFAULT_THEME, { palette: { secondary: { main: '#8A4B00' } } });
+    const report = auditContrast({ levels: AA, allowlist: [] }, { themes: { light: theme } });
+    expect(result(report, 'light/contained/secondary/enabled').status).toBe('pass');
+  });
+});
+
+// ─── 3. Levels & allowlist ────────────────────────────────────────────────────
+
+test.describe('Levels & allowlist', () => {
+  // Figma's secondary as it was drawn, before the palette's AA adjustment
+  const figmaSecondary = mergeTheme(DEFAULT_THEME, { palette: { secondary: { main: '#FFA100', contrastText: '#FFFFFF' } } });
+  const auditFigma = (config: Partial<AuditConfig> = {}) =>
+    auditContrast({ levels: AA, allowlist: [], ...config }, { themes: { light: figmaSecondary } });
+
+  test('contained secondary fails AA with a white label', () => {
+    const r = result(auditFigma(), 'light/contained/secondary/enabled');
+    expect(r.ratio).toBeLessThan(4.5);
+    expect(r.status).toBe('fail');
+  });
+
+  test('AAA fails what AA passes', () => {
+    const id = 'light/contained/primary/enabled';
+    expect(result(audit({ levels: { ...AA, text: 7 } }), id).status).toBe('fail');
+  });
+
+  test('APCA level adds to the WCAG check', () => {
+    const id = 'light/contained/primary/enabled';
+    expect(result(audit(), id).apca).toBeLessThan(-60);
+    expect(result(audit({ levels: { ...AA, apca: 100 } }), id).status).toBe('fail');
+  });
+
+  test('allowlisted failures are reported with their reason', () => {
+    const report = auditFigma({ allowlist: [{ id: 'light/contained/secondary/enabled', reason: 'brand orange' }] });
+    const r = result(report, 'light/contained/secondary/enabled');
+    expect([r.status, r.reason]).toEqual(['allowed', 'brand orange']);
+    expect(formatReport(report)).toContain('allowed (brand orange)');
+    // Only that one: its hover still fails
+    expect(result(report, 'light/contained/secondary/hover').status).toBe('fail');
+  });
+
+  test('unused allowlist entries are reported', () => {
+    const entry = { id: 'light/contained/primary/enabled', reason: 'passes anyway' };
+    expect(audit({ allowlist: [entry] }).unusedAllowlist).toEqual([entry]);
+  });
+
+  test('entries name one combination, never a wildcard', () => {
+    for (const id of ['light/*/info/*', '*/*/*/*', 'light/text/in*/hover', 'light/text/info']) {
+      expect(() => validateAllowlist([{ id, reason: '' }]), id).toThrow('without wildcards');
+    }
+    expect(() => audit({ allowlist: [{ id: 'light/*/secondary/*', reason: '' }] })).toThrow('without wildcards');
+  });
+
+  test('focus rings can\'t be allowlisted', () => {
+    expect(() => validateAllowlist([{ id: 'light/outlined/secondary/focus', reason: '' }])).toThrow('focus');
+  });
+});
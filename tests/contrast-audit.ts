@@ -0,0 +1,54 @@
+/**
+ * Audits the contrast of every Button variant × color × state.
+ *
+ * Measures the values `buildVars` emits for the light and dark themes against
+ * WCAG 2.x and prints a table. Levels and the allowlist of exceptions the
+ * designers have signed off — one explicit combination per entry, never a
+ * focus ring — live in tests/contrast-audit.json; tests/contrast-audit.spec.ts
+ * fails on anything below the level that isn't allowlisted.
+ *
+ * Run with:
+ *   npx tsx tests/contrast-audit.ts
+ *
+ * Options:
+ *   --apca           add an APCA Lc column
+ *   --failures-only  only list combinations below the level (allowed or not)
+ *   --color <css>    also audit a custom color, e.g. --color '#7B1FA2' (repeatable)
+ */
+
+import fs   from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { auditContrast, formatReport, type AuditConfig } from './utils/contrast-audit';
+import { DEFAULT_THEME } from '../src/components/Button/tokens';
+
+export const CONFIG_FILE = path.join(process.cwd(), 'tests', 'contrast-audit.json');
+
+export function loadAuditConfig(): AuditConfig {
+  return JSON.parse(fs.readFileSync(CONFIG_FILE, 'utf8')) as AuditConfig;
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+function options(name: string): string[] {
+  return process.argv.flatMap((arg, i) => (arg === name && process.argv[i + 1] ? [process.argv[i + 1]] : []));
+}
+
+function main() {
+  const apca         = process.argv.includes('--apca');
+  const failuresOnly = process.argv.includes('--failures-only');
+  const custom       = options('--color');
+
+  const colors = custom.length > 0 ? [...Object.keys(DEFAULT_THEME.palette), ...custom] : undefined;
+  const report = auditContrast(loadAuditConfig(), { colors });
+  console.log(formatReport(report, { apca, failuresOnly }));
+
+  if (report.results.some(r => r.status === 'fail') || report.unusedAllowlist.length > 0) {
+    process.exit(1);
+  }
+}
+
+// Only execute when run directly (not when imported by the tests)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main();
+}
@@ -1,137 +1,206 @@
 /**
- * Downloads Figma component node images as PNG reference files.
+ * Downloads Figma component node images as reference files, for every
+ * component in tests/figma.config.ts (or the one named by --component).
+ *
+ * Discovers the variants of each component's COMPONENT_SET through the nodes
+ * API, maps their property names onto the config's values, warns about
+ * combinations the set lacks, writes tests/__figma__/<component>/nodes.json
+ * (read by figma-comparison.spec.ts), prints what changed, then downloads
+ * every changed variant as PNGs at 1x, 2x and 3x (`{key}.png`,
+ * `{key}@2x.png`, `{key}@3x.png`) and as `{key}.svg` into the same directory.
  *
  * Run once (or whenever the Figma design changes) with:
  *   npx tsx tests/download-figma-refs.ts
+ *   npx tsx tests/download-figma-refs.ts --component button --from tests/__fixtures__/figma-button-set.json --nodes-only
+ *
+ * Options:
+ *   --component <name>   sync one component of figma.config.ts (default all)
+ *   --from <file>        read a saved nodes response instead of calling the API
+ *   --save-nodes <file>  also save the nodes response (e.g. to refresh the fixture)
+ *   --nodes-only         write nodes.json and figma-sync.json, download no images
+ *   --force              ignore the download cache and fetch every image
+ *   --concurrency <n>    parallel image downloads (default 4)
+ *   --scales <list>      PNG scales to fetch, e.g. `1,2` (default 1,2,3)
+ *   --no-svg             skip the SVG references
+ *
+ * --from and --save-nodes hold one component's response, so they need
+ * --component when the config has more than one.
+ *
+ * Downloads check the status code and the file contents, retry with backoff
+ * on 429 / 5xx, and ask the Images API for at most 50 ids per call.
+ *
+ * tests/__figma__/<component>/figma-sync.json records what was synced: the
+ * file's version and lastModified, a hash of each variant's properties and of
+ * each reference file. A reference whose hash is recorded for the current
+ * file version is skipped, so a rerun against an unchanged file downloads
+ * nothing; and `npm run figma-drift` reports what changed in Figma since.
  *
- * Requires FIGMA_API_TOKEN to be set (or passed inline).
+ * Requires FIGMA_API_TOKEN to be set (or passed inline), unless both --from
+ * and --nodes-only are given.
  */
 
 import fs   from 'node:fs';
 import path from 'node:path';
-import https from 'node:https';
+import { fileURLToPath } from 'node:url';
+import {
+  FIGMA_SCALES, diffNodes, discoverNodes, figmaPaths, formatNodeDiff, missingNodes, parseReferenceFile,
+  referenceFile, renderNodeList,
+  type FigmaComponentConfig, type FigmaComponentSetResponse, type FigmaScale, type ReferenceKind,
+} from './utils/figma-components';
+import {
+  FIGMA_API, downloadReferences, fetchWithRetry, type DownloadCache, type DownloadReport,
+} from './utils/figma-download';
+import { buildSyncManifest, readNodeList, readSyncManifest, writeSyncManifest } from './utils/figma-sync';
+import { FIGMA_COMPONENTS, figmaComponent } from './figma.config';
 
-const FIGMA_TOKEN = process.env.FIGMA_API_TOKEN;
-if (!FIGMA_TOKEN) {
-  console.error('Error: FIGMA_API_TOKEN environment variable is not set.');
-  console.error('Usage: FIGMA_API_TOKEN=<your-token> npx tsx tests/download-figma-refs.ts');
-  process.exit(1);
-}
-const FILE_KEY    = '0SGlWXx4nQMnLBUyMU7GZt';
-const OUT_DIR     = path.join(process.cwd(), 'tests', '__figma__');
-
-// ─── Node IDs extracted from the <Button> COMPONENT_SET (node 1:1068) ────────
-// Key format:  {variant}_{color}_{state}
-export const FIGMA_NODE_IDS: Record<string, string> = {
-  'contained_primary_enabled':   '1:1069',
-  'contained_secondary_enabled': '1:1150',
-  'contained_error_enabled':     '1:1177',
-  'contained_warning_enabled':   '1:1204',
-  'contained_info_enabled':      '1:1231',
-  'contained_success_enabled':   '1:1258',
-  'contained_primary_disabled':  '1:1341',
-  'contained_secondary_disabled':'1:1362',
-  'contained_error_disabled':    '1:1369',
-  'contained_warning_disabled':  '1:1376',
-  'contained_info_disabled':     '1:1383',
-  'contained_success_disabled':  '1:1390',
-  'outlined_primary_enabled':    '1:2053',
-  'outlined_secondary_enabled':  '1:2134',
-  'outlined_error_enabled':      '1:2161',
-  'outlined_warning_enabled':    '1:2188',
-  'outlined_info_enabled':       '1:2215',
-  'outlined_success_enabled':    '1:2242',
-  'outlined_primary_disabled':   '1:2325',
-  'outlined_secondary_disabled': '1:2346',
-  'outlined_error_disabled':     '1:2353',
-  'outlined_warning_disabled':   '1:2360',
-  'outlined_info_disabled':      '1:2367',
-  'outlined_success_disabled':   '1:2374',
-  'text_primary_enabled':        '1:3365',
-  'text_secondary_enabled':      '1:3488',
-  'text_error_enabled':          '1:3515',
-  'text_warning_enabled':        '1:3542',
-  'text_info_enabled':           '1:3569',
-  'text_success_enabled':        '1:3596',
-  'text_primary_disabled':       '1:3467',
-  'text_secondary_disabled':     '1:3658',
-  'text_error_disabled':         '1:3665',
-  'text_warning_disabled':       '1:3672',
-  'text_info_disabled':          '1:3679',
-  'text_success_disabled':       '1:3686',
-};
-
-// ─── Helpers ──────────────────────────────────────────────────────────────────
-
-function get(url: string, headers: Record<string, string>): Promise<string> {
-  return new Promise((resolve, reject) => {
-    https.get(url, { headers }, (res) => {
-      let data = '';
-      res.on('data', chunk => data += chunk);
-      res.on('end', () => resolve(data));
-      res.on('error', reject);
-    }).on('error', reject);
-  });
+// ─── Figma API ────────────────────────────────────────────────────────────────
+
+/** The component set with its variants and every layer in them, for the property hashes. */
+export async function fetchComponentSet(
+  { fileKey, componentSet }: FigmaComponentConfig,
+  token: string,
+): Promise<FigmaComponentSetResponse> {
+  const url = `${FIGMA_API}/files/${fileKey}/nodes?ids=${encodeURIComponent(componentSet)}`;
+  const res = await fetchWithRetry(url, { headers: { 'X-Figma-Token': token } });
+  return res.json() as Promise<FigmaComponentSetResponse>;
 }
 
-function download(url: string, dest: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const file = fs.createWriteStream(dest);
-    https.get(url, (res) => {
-      // Follow redirects (Figma CDN returns 307)
-      if (res.statusCode === 307 || res.statusCode === 302 || res.statusCode === 301) {
-        file.close();
-        fs.unlinkSync(dest);
-        download(res.headers.location!, dest).then(resolve).catch(reject);
-        return;
-      }
-      res.pipe(file);
-      file.on('finish', () => { file.close(); resolve(); });
-      file.on('error', reject);
-    }).on('error', reject);
-  });
+/**
+ * The components to work on: the one named by --component, else all. Options
+ * that hold a single response (`single`) need exactly one.
+ */
+export function selectComponents(name: string | undefined, single: string[]): FigmaComponentConfig[] {
+  const components = name ? [figmaComponent(name)] : FIGMA_COMPONENTS;
+  if (components.length > 1 && single.length) {
+    throw new Error(`${single.join(' / ')} hold one component's response — pass --component <name>`);
+  }
+  return components;
 }
 
 // ─── Main ─────────────────────────────────────────────────────────────────────
 
+function option(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+/** PNG scales from --scales (default all), then the SVG unless --no-svg. */
+function referenceKinds(): ReferenceKind[] {
+  const scales = option('--scales')?.split(',').map(Number) ?? [...FIGMA_SCALES];
+  const unknown = scales.filter(s => !FIGMA_SCALES.includes(s as FigmaScale));
+  if (unknown.length) throw new Error(`--scales: ${unknown.join(', ')} not in ${FIGMA_SCALES.join(', ')}`);
+  const kinds: ReferenceKind[] = scales.map(scale => ({ format: 'png', scale: scale as FigmaScale }));
+  if (!process.argv.includes('--no-svg')) kinds.push({ format: 'svg' });
+  return kinds;
+}
+
+const kindLabel = (kind: ReferenceKind) => kind.format === 'svg' ? 'SVG' : `PNG @${kind.scale}x`;
+
+interface SyncOptions {
+  from?:      string;
+  saveNodes?: string;
+  nodesOnly:  boolean;
+  force:      boolean;
+  token?:     string;
+  kinds:      ReferenceKind[];
+}
+
+/** Syncs one component; resolves to whether every download succeeded. */
+async function syncComponent(component: FigmaComponentConfig, opts: SyncOptions): Promise<boolean> {
+  const { name, fileKey, componentSet } = component;
+  const paths = figmaPaths(component);
+  console.log(`\n── ${name} ──`);
+
+  let response: FigmaComponentSetResponse;
+  if (opts.from) {
+    console.log(`Reading ${opts.from}…`);
+    response = JSON.parse(fs.readFileSync(opts.from, 'utf8')) as FigmaComponentSetResponse;
+  } else {
+    console.log(`Fetching component set ${componentSet}…`);
+    response = await fetchComponentSet(component, opts.token!);
+  }
+
+  if (opts.saveNodes) {
+    fs.writeFileSync(opts.saveNodes, JSON.stringify(response, null, 2) + '\n');
+    console.log(`Saved nodes response to ${opts.saveNodes}`);
+  }
+
+  const { nodes, warnings } = discoverNodes(response, component);
+  for (const warning of warnings) console.warn(`  ⚠  ${warning}`);
+  const missing = missingNodes(nodes, component);
+  if (missing.length) {
+    console.warn(`  ⚠  No variant for ${missing.length} expected combinations, e.g. ${missing.slice(0, 3).join(', ')}`);
+  }
+
+  console.log('\n' + formatNodeDiff(diffNodes(readNodeList(paths.nodes), nodes)) + '\n');
+  fs.mkdirSync(paths.dir, { recursive: true });
+  fs.writeFileSync(paths.nodes, renderNodeList(nodes, component));
+  console.log(`Wrote ${path.relative(process.cwd(), paths.nodes)} (${nodes.length} variants)`);
+
+  const cache: DownloadCache = { entries: opts.force ? {} : readSyncManifest(paths.sync)?.references ?? {} };
+  const reports: [ReferenceKind, DownloadReport][] = [];
+  for (const kind of opts.nodesOnly ? [] : opts.kinds) {
+    console.log(`\n${kindLabel(kind)}:`);
+    const report = await downloadReferences(
+      nodes.map(({ key, nodeId }) => ({ nodeId, dest: path.join(paths.dir, referenceFile(key, kind)) })),
+      {
+        token: opts.token!, fileKey, version: response.version, cache, kind,
+        concurrency: Number(option('--concurrency') ?? 4),
+        log: line => console.log(line),
+      },
+    );
+    reports.push([kind, report]);
+  }
+
+  // Drop references of variants that no longer exist.
+  const ids = new Set(nodes.map(n => n.nodeId));
+  const references = Object.fromEntries(
+    Object.entries(cache.entries).filter(([file]) => ids.has(parseReferenceFile(file)?.key ?? '')),
+  );
+  writeSyncManifest(paths.sync, buildSyncManifest(response, nodes, references, { fileKey, setId: componentSet }));
+  if (opts.nodesOnly) {
+    console.log(`Wrote ${path.relative(process.cwd(), paths.sync)} (version ${response.version ?? 'unknown'}, no images downloaded)`);
+    return true;
+  }
+
+  console.log('');
+  for (const [kind, { downloaded, cached, missing, failed }] of reports) {
+    const label = `${kindLabel(kind)}:`.padEnd(9);
+    console.log(
+      `${label} downloaded ${downloaded.length}, unchanged ${cached.length}, ` +
+      `no image ${missing.length}, failed ${failed.length}`,
+    );
+  }
+  console.log(`Saved to: ${paths.dir} (synced version ${response.version ?? 'unknown'})`);
+  return reports.every(([, r]) => !r.failed.length);
+}
+
 async function main() {
-  fs.mkdirSync(OUT_DIR, { recursive: true });
-
-  const allIds    = Object.values(FIGMA_NODE_IDS);
-  // Figma Images API accepts max ~200 IDs per request; batch in 36 is fine.
-  const nodeParam = allIds.map(id => encodeURIComponent(id)).join(',');
-  const apiUrl    = `https://api.figma.com/v1/images/${FILE_KEY}?ids=${nodeParam}&format=png&scale=1`;
-
-  console.log(`Fetching image URLs for ${allIds.length} nodes…`);
-  const body  = await get(apiUrl, { 'X-Figma-Token': FIGMA_TOKEN });
-  const json  = JSON.parse(body) as { images: Record<string, string | null>; err: string | null };
-
-  if (json.err) throw new Error(`Figma API error: ${json.err}`);
-
-  const entries = Object.entries(FIGMA_NODE_IDS);
-  let ok = 0;
-  let skipped = 0;
-
-  for (const [key, nodeId] of entries) {
-    const imageUrl = json.images[nodeId];
-    if (!imageUrl) {
-      console.warn(`  ⚠  No image for ${key} (${nodeId})`);
-      skipped++;
-      continue;
-    }
-    const dest = path.join(OUT_DIR, `${key}.png`);
-    process.stdout.write(`  ↓  ${key}.png … `);
-    await download(imageUrl, dest);
-    console.log('done');
-    ok++;
+  const from      = option('--from');
+  const saveNodes = option('--save-nodes');
+  const nodesOnly = process.argv.includes('--nodes-only');
+  const force     = process.argv.includes('--force');
+
+  const token = process.env.FIGMA_API_TOKEN;
+  if (!token && !(from && nodesOnly)) {
+    console.error('Error: FIGMA_API_TOKEN environment variable is not set.');
+    console.error('Usage: FIGMA_API_TOKEN=<your-token> npx tsx tests/download-figma-refs.ts');
+    process.exit(1);
   }
 
-  console.log(`\nDownloaded ${ok} images, skipped ${skipped}.`);
-  console.log(`Saved to: ${OUT_DIR}`);
+  const components = selectComponents(option('--component'), [
+    ...from      ? ['--from'] : [],
+    ...saveNodes ? ['--save-nodes'] : [],
+  ]);
+  const kinds = referenceKinds();
+  let ok = true;
+  for (const component of components) {
+    ok = await syncComponent(component, { from, saveNodes, nodesOnly, force, token, kinds }) && ok;
+  }
+  if (!ok) process.exit(1);
 }
 
-// Only execute when run directly (not when imported for FIGMA_NODE_IDS)
-import { fileURLToPath } from 'node:url';
+// Only execute when run directly (not when imported by the tests)
 if (process.argv[1] === fileURLToPath(import.meta.url)) {
   main().catch(err => { console.error(err); process.exit(1); });
 }
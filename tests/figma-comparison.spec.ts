@@ -0,0 +1,201 @@
+import { test, expect, type Locator, type Page } from '@playwright/test';
+import fs   from 'node:fs';
+import path from 'node:path';
+import { compareImages, pngSize } from './utils/image-compare';
+import { openStory, css } from './utils/storybook';
+import {
+  figmaPaths, nodeInteraction, referenceFile, storyArgs,
+  type FigmaComponentConfig, type FigmaInteraction, type FigmaScale, type FigmaVariantNode,
+} from './utils/figma-components';
+import { parseSvgContainer } from './utils/figma-svg';
+import { readNodeList } from './utils/figma-sync';
+import { FIGMA_COMPONENTS } from './figma.config';
+
+// ─── Figma comparison ────────────────────────────────────────────────────────
+//
+// Compares every component in tests/figma.config.ts with its Figma component
+// set: a Playwright element screenshot against each variant's PNG export, and
+// the element's box and colors against its SVG export. Threshold 0.20 = up to
+// 20% per-pixel delta is tolerated (accounts for font-hinting, antialiasing,
+// and shadow differences between Figma and browser).
+//
+// Run `npx tsx tests/download-figma-refs.ts` first to populate
+// tests/__figma__/<component>/. The variants come from its nodes.json, so a
+// size or color the designers add is compared once the script has run, and a
+// component is compared once it has a config entry.
+//
+// Every state is driven for real: the pointer for hover and press, the
+// keyboard for focus (so :focus-visible applies).
+//
+// The pixel comparison is tagged @figma and also runs in the chromium@2x /
+// chromium@3x projects, each against the export at its device scale factor.
+// playwright.config.ts registers those projects only for scales that have
+// been exported. The vector checks read the SVG exports and don't depend on
+// the scale; they're registered once a component has SVG exports.
+//
+// A node in nodes.json without its reference fails, so a run can't pass
+// while comparing nothing. FIGMA_ALLOW_MISSING=1 skips those instead, for a
+// local run against a partial download (e.g. `--scales 1 --no-svg`).
+
+const FIGMA_DIFF_THRESHOLD = 0.20;
+
+const ALLOW_MISSING = process.env.FIGMA_ALLOW_MISSING === '1';
+
+const SCREENSHOT_DIR = path.join(process.cwd(), 'tests', '__screenshots__');
+
+/** Opens the component's story as the Figma variant and enters its state. */
+async function openFigmaVariant(page: Page, component: FigmaComponentConfig, node: FigmaVariantNode) {
+  await openStory(page, component.story, storyArgs(node, component), undefined, component.target);
+  const target = page.locator(component.target);
+  await expect(target).toBeVisible();
+  await interact(page, target, nodeInteraction(node, component));
+  return target;
+}
+
+/** The user action behind a Figma state; states without one need none. */
+async function interact(page: Page, target: Locator, interaction: FigmaInteraction | undefined) {
+  switch (interaction) {
+    case 'hover':
+      await target.hover();
+      break;
+    case 'focus':
+      await page.keyboard.press('Tab');
+      await expect(target).toBeFocused();
+      break;
+    case 'press':
+      await target.hover();
+      await page.mouse.down();
+      break;
+  }
+}
+
+/**
+ * Whether the reference is there to compare against. A missing one fails the
+ * test, or skips it under FIGMA_ALLOW_MISSING=1.
+ */
+function requireReference(component: FigmaComponentConfig, file: string): boolean {
+  const label = `${component.name}/${path.basename(file)}`;
+  if (fs.existsSync(file)) return true;
+  if (ALLOW_MISSING) {
+    test.skip(true, `Reference not found: ${label}`);
+    return false;
+  }
+  throw new Error(
+    `Reference not found: ${label} — run: npx tsx tests/download-figma-refs.ts --component ${component.name} ` +
+    '(or set FIGMA_ALLOW_MISSING=1 to skip missing references)',
+  );
+}
+
+/** Whether any SVG has been exported for the component (`--no-svg` skips them). */
+const hasSvgExports = (dir: string) =>
+  fs.existsSync(dir) && fs.readdirSync(dir).some(file => file.endsWith('.svg'));
+
+/** `variant/color/state/size` — the node's property values in config order. */
+const title = (node: FigmaVariantNode) => Object.values(node.props).join('/');
+
+for (const component of FIGMA_COMPONENTS) {
+  const { dir, nodes: nodesFile } = figmaPaths(component);
+  const nodes = readNodeList(nodesFile);
+
+  test.describe(`Figma comparison — ${component.name}`, () => {
+    if (!nodes.length) {
+      test(`nodes.json lists the ${component.name} variants`, () => {
+        test.skip(ALLOW_MISSING, `No Figma nodes for ${component.name} yet`);
+        throw new Error(`No Figma nodes for ${component.name} yet — run: npx tsx tests/download-figma-refs.ts --component ${component.name}`);
+      });
+    }
+
+    test.beforeAll(() => {
+      fs.mkdirSync(path.join(SCREENSHOT_DIR, component.name), { recursive: true });
+    });
+
+    for (const node of nodes) {
+      test(`${title(node)} — matches Figma (node ${node.nodeId})`, { tag: '@figma' }, async ({ page }) => {
+        const scale    = (test.info().project.use.deviceScaleFactor ?? 1) as FigmaScale;
+        const file     = referenceFile(node.key, { format: 'png', scale });
+        const figmaRef = path.join(dir, file);
+        if (!requireReference(component, figmaRef)) return;
+
+        const target = await openFigmaVariant(page, component, node);
+
+        // Capture in device pixels — the export's scale. Just the element,
+        // unless the export is larger: then an area of its size around the
+        // element, which takes in a focus ring (an outline, outside the box).
+        // `animations: 'disabled'` finishes the hover / press transitions.
+        const screenshotPath = path.join(SCREENSHOT_DIR, component.name, file);
+        const ref = pngSize(figmaRef);
+        const box = (await target.boundingBox())!;
+        const [width, height] = [ref.width / scale, ref.height / scale];
+        if (width > box.width + 1 || height > box.height + 1) {
+          const clip = {
+            x: Math.round(box.x + (box.width - width) / 2),
+            y: Math.round(box.y + (box.height - height) / 2),
+            width, height,
+          };
+          await page.screenshot({ path: screenshotPath, clip, scale: 'device', animations: 'disabled' });
+        } else {
+          await target.screenshot({ path: screenshotPath, scale: 'device', animations: 'disabled' });
+        }
+
+        const result = compareImages(figmaRef, screenshotPath, FIGMA_DIFF_THRESHOLD);
+        test.info().annotations.push({
+          type:        `figma @${scale}x`,
+          description: result.sizeMismatch ? 'size mismatch' : `${(result.diffRatio * 100).toFixed(1)}% of pixels differ`,
+        });
+
+        // Always write a summary to the test attachment for the HTML report
+        await test.info().attach(`diff — ${file}`, {
+          path: result.diffImagePath,
+          contentType: 'image/png',
+        });
+        await test.info().attach(`actual — ${file}`, {
+          path: screenshotPath,
+          contentType: 'image/png',
+        });
+        await test.info().attach(`figma — ${file}`, {
+          path: figmaRef,
+          contentType: 'image/png',
+        });
+
+        if (result.sizeMismatch) {
+          // Don't fail on size mismatch — surface it as a warning in the report.
+          console.warn(
+            `[${component.name}/${file}] Size mismatch between Figma export and screenshot. ` +
+            `Check ${result.diffImagePath} for a side-by-side view.`
+          );
+        } else {
+          expect(
+            result.diffRatio,
+            `${file}: ${(result.diffRatio * 100).toFixed(1)}% of pixels differ ` +
+            `(max allowed: ${FIGMA_DIFF_THRESHOLD * 100}%). ` +
+            `See diff: ${result.diffImagePath}`,
+          ).toBeLessThanOrEqual(FIGMA_DIFF_THRESHOLD);
+        }
+      });
+    }
+
+    // The focused export adds the ring as a larger shape of its own; the
+    // container geometry is checked on the other states.
+    const vectorNodes = hasSvgExports(dir) ? nodes.filter(n => nodeInteraction(n, component) !== 'focus') : [];
+    for (const node of vectorNodes) {
+      const { key, nodeId } = node;
+      const svgRef = path.join(dir, referenceFile(key, { format: 'svg' }));
+
+      test(`${title(node)} — matches the Figma vector (node ${nodeId})`, async ({ page }) => {
+        if (!requireReference(component, svgRef)) return;
+        const shape = parseSvgContainer(fs.readFileSync(svgRef, 'utf8'));
+        if (!shape) throw new Error(`No SVG container (<rect>) in ${component.name}/${key}.svg`);
+
+        const target = await openFigmaVariant(page, component, node);
+        const box = (await target.boundingBox())!;
+        // Width follows the label's glyph advances; height and radius are exact.
+        expect(Math.abs(box.width - shape.width), `${key}: width ${box.width} vs ${shape.width}`).toBeLessThanOrEqual(1);
+        expect(box.height).toBeCloseTo(shape.height, 0);
+        expect(await css(target, 'border-top-left-radius')).toBe(`${shape.radius}px`);
+        // Hover / press tints transition for 200ms
+        if (shape.background) await expect.poll(() => css(target, 'background-color')).toBe(shape.background);
+        if (shape.border)     await expect.poll(() => css(target, 'border-top-color')).toBe(shape.border);
+      });
+    }
+  });
+}
@@ -0,0 +1,295 @@
+import { test, expect } from '@playwright/test';
+import fs   from 'node:fs';
+import http from 'node:http';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import { PNG } from 'pngjs';
+import {
+  batches, downloadReferences, fetchWithRetry, isPng, isSvg, mapLimit, retryDelay,
+  type DownloadCache, type DownloadOptions, type ReferenceRequest,
+} from './utils/figma-download';
+
+// The downloader against a local stand-in for the Figma API and its image CDN.
+// No token, no network; delays are shrunk to a few ms.
+
+// ─── Stand-in server ─────────────────────────────────────────────────────────
+
+const PNG_BYTES = PNG.sync.write(Object.assign(new PNG({ width: 1, height: 1 }), {
+  data: Buffer.from([38, 93, 165, 255]),
+}));
+
+const SVG_TEXT = '<svg width="108" height="42" viewBox="0 0 108 42" fill="none" xmlns="http://www.w3.org/2000/svg">\n' +
+  '<rect width="108" height="42" rx="4" fill="#265DA5"/>\n</svg>\n';
+
+/** How /img/<scenario> answers, by request count (1-based). */
+const SCENARIOS: Record<string, (hit: number, res: http.ServerResponse, url: URL) => void> = {
+  ok:       (_, res, url) => url.searchParams.get('format') === 'svg'
+    ? res.writeHead(200, { 'Content-Type': 'image/svg+xml' }).end(SVG_TEXT)
+    : res.writeHead(200, { 'Content-Type': 'image/png' }).end(PNG_BYTES),
+  pngOnly:  (_, res) => res.writeHead(200, { 'Content-Type': 'image/png' }).end(PNG_BYTES),
+  limited:  (hit, res, url) => hit === 1
+    ? res.writeHead(429, { 'Retry-After': '1' }).end('Rate limit exceeded')
+    : SCENARIOS.ok(hit, res, url),
+  flaky:    (hit, res, url) => hit <= 2 ? res.writeHead(503).end('Service Unavailable') : SCENARIOS.ok(hit, res, url),
+  down:     (_, res) => res.writeHead(500).end('Internal Server Error'),
+  missing:  (_, res) => res.writeHead(404).end('Not Found'),
+  html:     (_, res) => res.writeHead(200, { 'Content-Type': 'text/html' }).end('<html>Access denied</html>'),
+  redirect: (_, res) => res.writeHead(307, { Location: '/img/ok' }).end(),
+};
+
+/** Node id → the scenario its image URL points at; unlisted ids render no image. */
+const NODES: Record<string, string> = {
+  '1:1': 'ok', '1:2': 'limited', '1:3': 'flaky', '1:4': 'missing', '1:5': 'html', '1:6': 'redirect',
+  '1:8': 'pngOnly',
+};
+
+let server: http.Server;
+let base = '';
+/** Requests per path, query excluded. */
+let hits = new Map<string, number>();
+let imageCalls: string[][] = [];
+/** `format` / `scale` of each Images API call. */
+let imageFormats: string[] = [];
+let inFlight = 0;
+let maxInFlight = 0;
+
+test.beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url  = new URL(req.url!, base);
+    const hit  = (hits.get(url.pathname) ?? 0) + 1;
+    hits.set(url.pathname, hit);
+
+    if (url.pathname.startsWith('/v1/images/')) {
+      if (req.headers['x-figma-token'] !== 'secret') return void res.writeHead(403).end('{"status":403,"err":"Invalid token"}');
+      const ids    = url.searchParams.get('ids')!.split(',');
+      const format = url.searchParams.get('format')!;
+      imageCalls.push(ids);
+      imageFormats.push(format === 'svg' ? 'svg' : `png@${url.searchParams.get('scale')}x`);
+      const images = Object.fromEntries(ids.map(id => [id, NODES[id] ? `${base}/img/${NODES[id]}?format=${format}` : null]));
+      return void res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ err: null, images }));
+    }
+
+    // Hold image responses briefly so parallel downloads overlap.
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    setTimeout(() => {
+      inFlight--;
+      SCENARIOS[url.pathname.replace('/img/', '')](hit, res, url);
+    }, 20);
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+test.afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+test.beforeEach(() => {
+  hits = new Map();
+  imageCalls = [];
+  imageFormats = [];
+  maxInFlight = 0;
+});
+
+const FAST = { retries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+function options(cache: DownloadCache, overrides: Partial<DownloadOptions> = {}): DownloadOptions {
+  return { token: 'secret', fileKey: 'FILE', apiBase: `${base}/v1`, version: 'v1', cache, ...FAST, ...overrides };
+}
+
+const refs = (dir: string, ...ids: string[]): ReferenceRequest[] =>
+  ids.map(nodeId => ({ nodeId, dest: path.join(dir, `${nodeId.replace(':', '-')}.png`) }));
+
+// ─── 1. Building blocks ──────────────────────────────────────────────────────
+
+test.describe('helpers', () => {
+  test('backoff doubles per attempt and is capped', () => {
+    const opts = { baseDelayMs: 100, maxDelayMs: 1000 };
+    expect([0, 1, 2, 3, 4].map(a => retryDelay(a, null, opts))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  test('Retry-After wins, in seconds or as a date', () => {
+    expect(retryDelay(0, '3')).toBe(3000);
+    expect(retryDelay(5, '0')).toBe(0);
+    const inTwoSeconds = new Date(Date.now() + 2000).toUTCString();
+    expect(retryDelay(0, inTwoSeconds)).toBeGreaterThan(500);
+    expect(retryDelay(0, '120', { maxDelayMs: 5000 })).toBe(5000);
+    expect(retryDelay(1, 'soon', { baseDelayMs: 10 })).toBe(20);
+  });
+
+  test('PNG signature', () => {
+    expect(isPng(PNG_BYTES)).toBe(true);
+    expect(isPng(Buffer.from('<html>Access denied</html>'))).toBe(false);
+    expect(isPng(PNG_BYTES.subarray(0, 8))).toBe(false);
+  });
+
+  test('SVG documents', () => {
+    expect(isSvg(Buffer.from(SVG_TEXT))).toBe(true);
+    expect(isSvg(Buffer.from(`<?xml version="1.0" encoding="UTF-8"?>\n${SVG_TEXT}`))).toBe(true);
+    expect(isSvg(Buffer.from('<svgfoo/>'))).toBe(false);
+    expect(isSvg(Buffer.from('<html>Access denied</html>'))).toBe(false);
+    expect(isSvg(PNG_BYTES)).toBe(false);
+  });
+
+  test('batches', () => {
+    expect(batches([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+    expect(batches([], 2)).toEqual([]);
+  });
+
+  test('mapLimit keeps order and the limit', async () => {
+    let running = 0;
+    let peak = 0;
+    const out = await mapLimit([30, 10, 20, 5, 15], 2, async ms => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      running--;
+      return ms * 2;
+    });
+    expect(out).toEqual([60, 20, 40, 10, 30]);
+    expect(peak).toBe(2);
+  });
+});
+
+// ─── 2. Status handling ──────────────────────────────────────────────────────
+
+test.describe('fetchWithRetry', () => {
+  test('retries a 429, honouring Retry-After within the cap', async () => {
+    const res = await fetchWithRetry(`${base}/img/limited`, {}, FAST);
+    expect(res.status).toBe(200);
+    expect(hits.get('/img/limited')).toBe(2);
+  });
+
+  test('retries 5xx until it clears', async () => {
+    await fetchWithRetry(`${base}/img/flaky`, {}, FAST);
+    expect(hits.get('/img/flaky')).toBe(3);
+  });
+
+  test('gives up on persistent 5xx', async () => {
+    await expect(fetchWithRetry(`${base}/img/down`, {}, FAST)).rejects.toThrow('500 Internal Server Error after 4 attempts');
+    expect(hits.get('/img/down')).toBe(4);
+  });
+
+  test('4xx fails at once, with the body', async () => {
+    await expect(fetchWithRetry(`${base}/img/missing`, {}, FAST)).rejects.toThrow('404 Not Found — Not Found');
+    expect(hits.get('/img/missing')).toBe(1);
+  });
+
+  test('network errors are retried, then reported', async () => {
+    await expect(fetchWithRetry('http://127.0.0.1:1/', {}, { ...FAST, retries: 1 })).rejects.toThrow('after 2 attempts');
+  });
+});
+
+// ─── 3. Downloads ────────────────────────────────────────────────────────────
+
+test.describe('downloadReferences', () => {
+  test('writes valid PNGs and reports the rest', async () => {
+    const dir   = test.info().outputPath();
+    const cache = { entries: {} };
+    const report = await downloadReferences(refs(dir, '1:1', '1:2', '1:3', '1:4', '1:5', '1:6', '1:7'), options(cache));
+
+    expect(report.downloaded.sort()).toEqual(['1:1', '1:2', '1:3', '1:6']);
+    expect(report.missing).toEqual(['1:7']);
+    expect(report.failed.map(f => f.nodeId).sort()).toEqual(['1:4', '1:5']);
+    expect(report.failed.find(f => f.nodeId === '1:5')!.error).toContain('is not a PNG');
+
+    for (const id of report.downloaded) {
+      expect(fs.readFileSync(path.join(dir, `${id.replace(':', '-')}.png`))).toEqual(PNG_BYTES);
+    }
+    expect(fs.readdirSync(dir).sort()).toEqual(['1-1.png', '1-2.png', '1-3.png', '1-6.png']);
+    expect(Object.keys(cache.entries).sort()).toEqual(['1:1.png', '1:2.png', '1:3.png', '1:6.png']);
+  });
+
+  test('a failed download leaves the existing reference alone', async () => {
+    const [missing, html] = refs(test.info().outputPath(), '1:4', '1:5');
+    fs.mkdirSync(test.info().outputPath(), { recursive: true });
+    fs.writeFileSync(missing.dest, PNG_BYTES);
+    fs.writeFileSync(html.dest, PNG_BYTES);
+
+    const report = await downloadReferences([missing, html], options({ entries: {} }));
+    expect(report.failed).toHaveLength(2);
+    expect(fs.readFileSync(missing.dest)).toEqual(PNG_BYTES);
+    expect(fs.readFileSync(html.dest)).toEqual(PNG_BYTES);
+    expect(fs.readdirSync(test.info().outputPath())).toHaveLength(2);
+  });
+
+  test('ids are split into Images API batches', async () => {
+    await downloadReferences(refs(test.info().outputPath(), '1:1', '1:2', '1:3', '1:6', '1:7'), options({ entries: {} }, { batchSize: 2 }));
+    expect(imageCalls).toEqual([['1:1', '1:2'], ['1:3', '1:6'], ['1:7']]);
+  });
+
+  test('downloads run in parallel up to the limit', async () => {
+    const ids = ['1:1', '1:1b', '1:1c', '1:1d', '1:1e', '1:1f'];
+    for (const id of ids) NODES[id] = 'ok';
+    try {
+      await downloadReferences(refs(test.info().outputPath(), ...ids), options({ entries: {} }, { concurrency: 3 }));
+    } finally {
+      for (const id of ids.slice(1)) delete NODES[id];
+    }
+    expect(maxInFlight).toBe(3);
+  });
+
+  test('scaled PNGs and SVGs are requested, checked and cached separately', async () => {
+    const dir   = test.info().outputPath();
+    const cache = { entries: {} };
+    const [png] = refs(dir, '1:1');
+    const svg   = { nodeId: '1:1', dest: path.join(dir, '1-1.svg') };
+
+    await downloadReferences([png], options(cache, { kind: { format: 'png', scale: 2 } }));
+    await downloadReferences([svg], options(cache, { kind: { format: 'svg' } }));
+    expect(imageFormats).toEqual(['png@2x', 'svg']);
+    expect(fs.readFileSync(png.dest)).toEqual(PNG_BYTES);
+    expect(fs.readFileSync(svg.dest, 'utf8')).toBe(SVG_TEXT);
+    expect(Object.keys(cache.entries).sort()).toEqual(['1:1.svg', '1:1@2x.png']);
+
+    const report = await downloadReferences([png], options(cache, { kind: { format: 'png', scale: 3 } }));
+    expect(report.downloaded).toEqual(['1:1']);
+  });
+
+  test('an SVG request answered with a PNG fails', async () => {
+    const report = await downloadReferences(
+      [{ nodeId: '1:8', dest: path.join(test.info().outputPath(), '1-8.svg') }],
+      options({ entries: {} }, { kind: { format: 'svg' } }),
+    );
+    expect(report.failed.map(f => f.error)).toEqual([expect.stringContaining('is not an SVG')]);
+  });
+
+  test('a bad token fails the run', async () => {
+    await expect(downloadReferences(refs(test.info().outputPath(), '1:1'), options({ entries: {} }, { token: 'wrong' })))
+      .rejects.toThrow('403');
+  });
+});
+
+// ─── 4. Cache ────────────────────────────────────────────────────────────────
+
+test.describe('download cache', () => {
+  test('unchanged references are skipped without an API call', async () => {
+    const list  = refs(test.info().outputPath(), '1:1', '1:6');
+    const cache = { entries: {} };
+    await downloadReferences(list, options(cache));
+    hits = new Map();
+
+    const report = await downloadReferences(list, options(cache));
+    expect(report.cached).toEqual(['1:1', '1:6']);
+    expect(report.downloaded).toEqual([]);
+    expect(hits.size).toBe(0);
+  });
+
+  test('a new file version, an edited PNG or no version means a download', async () => {
+    const [a, b] = refs(test.info().outputPath(), '1:1', '1:6');
+    const cache  = { entries: {} };
+    await downloadReferences([a, b], options(cache));
+
+    fs.writeFileSync(b.dest, Buffer.concat([PNG_BYTES, Buffer.from([0])]));
+    let report = await downloadReferences([a, b], options(cache));
+    expect(report.cached).toEqual(['1:1']);
+    expect(report.downloaded).toEqual(['1:6']);
+
+    report = await downloadReferences([a, b], options(cache, { version: 'v2' }));
+    expect(report.downloaded.sort()).toEqual(['1:1', '1:6']);
+    expect(cache.entries).toMatchObject({ '1:1.png': { version: 'v2' }, '1:6.png': { version: 'v2' } });
+
+    report = await downloadReferences([a, b], options(cache, { version: undefined }));
+    expect(report.cached).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Reports design drift: which variants of the components in
+ * tests/figma.config.ts changed in Figma since their references in
+ * tests/__figma__/<component>/ were synced.
+ *
+ * Reads each component set — live, or a recorded nodes response — and
+ * compares it with the component's figma-sync.json (written by
+ * download-figma-refs.ts): variants added or removed, variants whose
+ * properties changed (fills, strokes, bounds, layers…) and, live, variants
+ * whose render no longer matches their reference. Changes are listed by
+ * key up to the last property — `{variant}_{color}_{state}` for Button —
+ * with that property's values (the sizes) affected.
+ *
+ * Run with:
+ *   FIGMA_API_TOKEN=<token> npx tsx tests/figma-drift.ts
+ *   npx tsx tests/figma-drift.ts --component button --from saved-nodes.json
+ *
+ * Options:
+ *   --component <name>  check one component of figma.config.ts (default all)
+ *   --from <file>       compare a saved nodes response (properties only)
+ *   --no-visual         don't render the variants; compare properties only
+ *
+ * Exits 1 when anything drifted, so CI can flag a design change before the
+ * Figma comparison starts failing.
+ */
+
+import fs   from 'node:fs';
+import os   from 'node:os';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { fetchComponentSet, selectComponents } from './download-figma-refs';
+import {
+  discoverNodes, figmaPaths, referenceFile,
+  type FigmaComponentConfig, type FigmaComponentSetResponse, type FigmaVariantNode, type ReferenceKind,
+} from './utils/figma-components';
+import { downloadReferences, sha256 } from './utils/figma-download';
+import { detectDrift, formatDrift, propertyHashes, readSyncManifest, type FigmaSyncManifest } from './utils/figma-sync';
+import { compareImages } from './utils/image-compare';
+
+const PNG_1X: ReferenceKind = { format: 'png', scale: 1 };
+
+// ─── Renders ──────────────────────────────────────────────────────────────────
+
+/**
+ * Node key → whether Figma's current 1x render differs from the synced one.
+ * Equal hashes mean unchanged; otherwise the render is diffed against the
+ * committed reference, since re-encoding alone can change the bytes.
+ */
+async function renderChanges(
+  component: FigmaComponentConfig,
+  nodes:     FigmaVariantNode[],
+  manifest:  FigmaSyncManifest,
+  token:     string,
+): Promise<Record<string, boolean>> {
+  const synced = nodes.filter(n => manifest.nodes[n.key]);
+  const dir    = fs.mkdtempSync(path.join(os.tmpdir(), 'figma-drift-'));
+  try {
+    const live = (key: string) => path.join(dir, referenceFile(key, PNG_1X));
+    await downloadReferences(
+      synced.map(({ key, nodeId }) => ({ nodeId, dest: live(key) })),
+      { token, fileKey: component.fileKey, cache: { entries: {} } },
+    );
+
+    const changed: Record<string, boolean> = {};
+    for (const { key } of synced) {
+      if (!fs.existsSync(live(key))) continue;
+      const entry = manifest.references[referenceFile(manifest.nodes[key].nodeId, PNG_1X)];
+      if (entry?.sha256 === sha256(fs.readFileSync(live(key)))) {
+        changed[key] = false;
+        continue;
+      }
+      const reference = path.join(figmaPaths(component).dir, referenceFile(key, PNG_1X));
+      if (!fs.existsSync(reference)) {
+        changed[key] = true;
+        continue;
+      }
+      const result = compareImages(reference, live(key));
+      changed[key] = result.sizeMismatch || result.diffPixels > 0;
+    }
+    return changed;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+function option(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+/** Prints the component's drift report; resolves to whether anything drifted. */
+async function checkComponent(
+  component: FigmaComponentConfig,
+  { from, visual, token }: { from?: string; visual: boolean; token?: string },
+): Promise<boolean> {
+  const { name, componentSet } = component;
+  const sync = figmaPaths(component).sync;
+  console.log(`\n── ${name} ──`);
+
+  const manifest = readSyncManifest(sync);
+  if (!manifest) {
+    console.error(`Error: ${path.relative(process.cwd(), sync)} not found — run npm run download-figma-refs first.`);
+    process.exit(1);
+  }
+
+  let response: FigmaComponentSetResponse;
+  if (from) {
+    console.log(`Reading ${from}…`);
+    response = JSON.parse(fs.readFileSync(from, 'utf8')) as FigmaComponentSetResponse;
+  } else {
+    console.log(`Fetching component set ${componentSet}…`);
+    response = await fetchComponentSet(component, token!);
+  }
+
+  const { nodes, warnings } = discoverNodes(response, component);
+  for (const warning of warnings) console.warn(`  ⚠  ${warning}`);
+
+  if (manifest.version && response.version === manifest.version) {
+    console.log(`File unchanged since the sync (version ${manifest.version}).`);
+    return false;
+  }
+
+  const hashes = propertyHashes(response, componentSet);
+  if (visual) console.log(`Rendering ${nodes.length} variants…`);
+  const report = detectDrift(manifest, {
+    version:      response.version ?? null,
+    lastModified: response.lastModified ?? null,
+    nodes:        nodes.map(({ key, nodeId }) => ({ key, nodeId, properties: hashes[nodeId] })),
+    visual:       visual ? await renderChanges(component, nodes, manifest, token!) : undefined,
+  });
+
+  console.log('\n' + formatDrift(report));
+  return report.entries.length > 0;
+}
+
+async function main() {
+  const from   = option('--from');
+  const visual = !from && !process.argv.includes('--no-visual');
+
+  const token = process.env.FIGMA_API_TOKEN;
+  if (!from && !token) {
+    console.error('Error: FIGMA_API_TOKEN environment variable is not set (or pass --from <nodes.json>).');
+    console.error('Usage: FIGMA_API_TOKEN=<your-token> npx tsx tests/figma-drift.ts');
+    process.exit(1);
+  }
+
+  let drifted = false;
+  for (const component of selectComponents(option('--component'), from ? ['--from'] : [])) {
+    drifted = await checkComponent(component, { from, visual, token }) || drifted;
+  }
+  if (drifted) process.exit(1);
+}
+
+// Only execute when run directly (not when imported by the tests)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(err => { console.error(err); process.exit(1); });
+}
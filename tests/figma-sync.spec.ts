@@ -0,0 +1,139 @@
+import { test, expect } from '@playwright/test';
+import {
+  buildSyncManifest, detectDrift, formatDrift, propertyHashes, type FigmaSyncManifest,
+} from './utils/figma-sync';
+import {
+  discoverNodes, type FigmaComponentConfig, type FigmaComponentNode, type FigmaComponentSetResponse,
+} from './utils/figma-components';
+import { figmaComponent } from './figma.config';
+
+// Pure unit tests of the sync manifest and the drift report — no network.
+
+// ─── Fixtures ────────────────────────────────────────────────────────────────
+
+const SET = '9:1';
+const BUTTON: FigmaComponentConfig = { ...figmaComponent('button'), componentSet: SET };
+
+/** A contained/primary variant with a fill and a label layer. */
+function variant(id: string, state: string, size: string, fill = { r: 0.149, g: 0.365, b: 0.647, a: 1 }): FigmaComponentNode {
+  return {
+    id,
+    name: `Variant=Contained, Color=Primary, State=${state}, Size=${size}`,
+    type: 'COMPONENT',
+    fills: [{ type: 'SOLID', color: fill }],
+    cornerRadius: 4,
+    children: [{ id: `${id}-label`, name: 'Label', type: 'TEXT', characters: 'Label' }],
+  };
+}
+
+function response(version: string, ...children: FigmaComponentNode[]): FigmaComponentSetResponse {
+  return {
+    version,
+    lastModified: `2026-10-0${version.slice(-1)}T12:00:00Z`,
+    nodes: { [SET]: { document: { id: SET, name: '<Button>', type: 'COMPONENT_SET', children } } },
+  };
+}
+
+const SYNCED = response('v1',
+  variant('9:2', 'Enabled', 'Large'),
+  variant('9:3', 'Enabled', 'Small'),
+  variant('9:4', 'Disabled', 'Large'),
+);
+
+function manifest(): FigmaSyncManifest {
+  const { nodes } = discoverNodes(SYNCED, BUTTON);
+  return buildSyncManifest(SYNCED, nodes, {
+    '9:2.png': { version: 'v1', sha256: 'aaa' },
+  }, { fileKey: 'FILE', setId: SET });
+}
+
+/** What detectDrift gets for a newer read of the file. */
+function live(res: FigmaComponentSetResponse, visual?: Record<string, boolean>) {
+  const hashes = propertyHashes(res, SET);
+  return {
+    version:      res.version!,
+    lastModified: res.lastModified!,
+    nodes:        discoverNodes(res, BUTTON).nodes.map(({ key, nodeId }) => ({ key, nodeId, properties: hashes[nodeId] })),
+    visual,
+  };
+}
+
+// ─── 1. Manifest ─────────────────────────────────────────────────────────────
+
+test.describe('Sync manifest', () => {
+  test('records the file version and a hash per variant', () => {
+    const m = manifest();
+    expect(m).toMatchObject({ fileKey: 'FILE', componentSet: SET, version: 'v1', lastModified: '2026-10-01T12:00:00Z' });
+    expect(Object.keys(m.nodes)).toEqual([
+      'contained_primary_disabled_large', 'contained_primary_enabled_large', 'contained_primary_enabled_small',
+    ]);
+    expect(m.nodes.contained_primary_enabled_large).toEqual({ nodeId: '9:2', properties: expect.stringMatching(/^[0-9a-f]{64}$/) });
+    expect(m.references).toEqual({ '9:2.png': { version: 'v1', sha256: 'aaa' } });
+  });
+
+  test('a recording without version fields records null', () => {
+    const bare = { nodes: SYNCED.nodes };
+    expect(buildSyncManifest(bare, [], {},{ fileKey: 'FILE', setId: SET })).toMatchObject({ version: null, lastModified: null });
+  });
+
+  test('property hashes ignore node ids and key order, not content', () => {
+    const [hash] = Object.values(propertyHashes(response('v1', variant('9:2', 'Enabled', 'Large')), SET));
+    const recreated = variant('9:99', 'Enabled', 'Large');
+    const reordered = Object.fromEntries(Object.entries(recreated).reverse()) as FigmaComponentNode;
+    expect(Object.values(propertyHashes(response('v2', reordered), SET))).toEqual([hash]);
+
+    const recolored = variant('9:2', 'Enabled', 'Large', { r: 0.1, g: 0.365, b: 0.647, a: 1 });
+    expect(Object.values(propertyHashes(response('v2', recolored), SET))).not.toEqual([hash]);
+  });
+});
+
+// ─── 2. Drift ────────────────────────────────────────────────────────────────
+
+test.describe('detectDrift', () => {
+  test('nothing changed', () => {
+    const report = detectDrift(manifest(), live(response('v2', ...SYNCED.nodes[SET]!.document.children), {}));
+    expect(report.entries).toEqual([]);
+    expect(formatDrift(report)).toBe([
+      'Synced v1 (2026-10-01T12:00:00Z) → now v2 (2026-10-02T12:00:00Z)',
+      'No design drift.',
+    ].join('\n'));
+  });
+
+  test('properties, renders, added and removed variants', () => {
+    const now = response('v3',
+      variant('9:2', 'Enabled', 'Large', { r: 0.2, g: 0.4, b: 0.7, a: 1 }),
+      variant('9:3', 'Enabled', 'Small', { r: 0.2, g: 0.4, b: 0.7, a: 1 }),
+      variant('9:5', 'Hovered', 'Large'),
+    );
+    const report = detectDrift(manifest(), live(now, {
+      contained_primary_enabled_large: true,
+      contained_primary_enabled_small: false,
+    }));
+    expect(report.entries).toEqual([
+      { key: 'contained_primary_disabled_large', change: 'removed' },
+      { key: 'contained_primary_enabled_large',  change: 'properties+visual' },
+      { key: 'contained_primary_enabled_small',  change: 'properties' },
+      { key: 'contained_primary_hovered_large',  change: 'added' },
+    ]);
+  });
+
+  test('a render change alone is reported as visual', () => {
+    const report = detectDrift(manifest(), live(SYNCED, { contained_primary_disabled_large: true }));
+    expect(report.entries).toEqual([{ key: 'contained_primary_disabled_large', change: 'visual' }]);
+  });
+
+  test('the report groups sizes under {variant}_{color}_{state}', () => {
+    const recolor = { r: 0.2, g: 0.4, b: 0.7, a: 1 };
+    const now = response('v3',
+      variant('9:2', 'Enabled', 'Large', recolor),
+      variant('9:3', 'Enabled', 'Small', recolor),
+      variant('9:4', 'Disabled', 'Large'),
+    );
+    expect(formatDrift(detectDrift(manifest(), live(now)))).toBe([
+      'Synced v1 (2026-10-01T12:00:00Z) → now v3 (2026-10-03T12:00:00Z)',
+      'Renders not compared — property changes only.',
+      '2 variants drifted:',
+      '  properties: contained_primary_enabled (large, small)',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,184 @@
+import { test, expect } from '@playwright/test';
+import fs   from 'node:fs';
+import path from 'node:path';
+import {
+  diffTokens, figmaToDtcg, flattenTokens, formatDiff, renderTokenModule, toCssValue, tokenKey,
+  type DtcgGroup, type FigmaColor, type FigmaExport,
+} from './utils/figma-tokens';
+
+// Pure unit tests against the recorded Figma export — no page, no network.
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const FIXTURE     = path.join(process.cwd(), 'tests', '__fixtures__', 'figma-export.json');
+const DTCG_FILE   = path.join(process.cwd(), 'src', 'tokens', 'figma.tokens.json');
+const MODULE_FILE = path.join(process.cwd(), 'src', 'tokens', 'figma.generated.ts');
+
+const loadFixture = (): FigmaExport => JSON.parse(fs.readFileSync(FIXTURE, 'utf8'));
+
+/** Finds a variable in the fixture by its Figma name. */
+function variableNamed(source: FigmaExport, name: string) {
+  return Object.values(source.variables.meta.variables).find(v => v.name === name)!;
+}
+
+// ─── 1. Checked-in output matches the fixture ────────────────────────────────
+
+test.describe('Generated files are up to date', () => {
+  test('figma.tokens.json', () => {
+    const { tokens } = figmaToDtcg(loadFixture());
+    expect(tokens).toEqual(JSON.parse(fs.readFileSync(DTCG_FILE, 'utf8')));
+  });
+
+  test('figma.generated.ts', () => {
+    const source = loadFixture();
+    const { tokens } = figmaToDtcg(source);
+    expect(renderTokenModule(tokens, source.fileKey)).toBe(fs.readFileSync(MODULE_FILE, 'utf8'));
+  });
+});
+
+// ─── 2. Variables ────────────────────────────────────────────────────────────
+
+test.describe('figmaToDtcg — variables', () => {
+  const { tokens, warnings } = figmaToDtcg(loadFixture());
+  const flat = flattenTokens(tokens);
+
+  test('COLOR variables become DTCG colors', () => {
+    expect(flat.get('color.primary.main')).toMatchObject({
+      $type:  'color',
+      $value: { colorSpace: 'srgb', alpha: 1, hex: '#265DA5' },
+      $extensions: { 'com.figma': { collection: 'Button' } },
+    });
+  });
+
+  test('translucent colors keep their alpha', () => {
+    expect(toCssValue(flat.get('color.disabled.text')!, flat)).toBe('rgba(0, 0, 0, 0.38)');
+  });
+
+  test('aliases become references and resolve to the target value', () => {
+    const warning = flat.get('color.warning.main')!;
+    expect(warning.$value).toBe('{color.secondary.main}');
+    expect(toCssValue(warning, flat)).toBe('#FFA100');
+  });
+
+  test('FLOAT variables are dimensions when scoped to lengths, numbers otherwise', () => {
+    expect(flat.get('radius.button')).toMatchObject({ $type: 'dimension', $value: { value: 4, unit: 'px' } });
+    expect(flat.get('opacity.hover')).toMatchObject({ $type: 'number', $value: 0.04 });
+  });
+
+  test('variables without a DTCG type are reported, not written', () => {
+    expect(flat.has('label.case')).toBe(false);
+    expect(warnings).toContain('label.case: STRING variables have no DTCG type, skipped');
+  });
+
+  test('only the default mode is read', () => {
+    const source = loadFixture();
+    const collection = Object.values(source.variables.meta.variableCollections)[0];
+    collection.modes.push({ modeId: '1:1', name: 'Dark' });
+    variableNamed(source, 'color/primary/main').valuesByMode['1:1'] = { r: 0, g: 0, b: 0, a: 1 };
+    const again = flattenTokens(figmaToDtcg(source).tokens);
+    expect(toCssValue(again.get('color.primary.main')!, again)).toBe('#265DA5');
+  });
+});
+
+// ─── 3. Styles ───────────────────────────────────────────────────────────────
+
+test.describe('figmaToDtcg — styles', () => {
+  const { tokens } = figmaToDtcg(loadFixture());
+  const flat = flattenTokens(tokens);
+
+  test('FILL styles land under color', () => {
+    expect(toCssValue(flat.get('color.background.dark')!, flat)).toBe('#121212');
+  });
+
+  test('TEXT styles become typography with a unitless line height', () => {
+    expect(flat.get('typography.button.medium')).toMatchObject({
+      $type: 'typography',
+      $value: { fontFamily: 'Roboto', fontWeight: 500, fontSize: { value: 14 }, lineHeight: 1.7143 },
+      $extensions: { 'com.figma': { textCase: 'UPPER' } },
+    });
+    expect(toCssValue(flat.get('typography.button.medium')!, flat)).toEqual({
+      fontFamily:    'Roboto',
+      fontWeight:    500,
+      fontSize:      '14px',
+      lineHeight:    '24px',
+      letterSpacing: '0.42px',
+      textTransform: 'uppercase',
+    });
+  });
+
+  test('EFFECT styles become shadow lists', () => {
+    expect(toCssValue(flat.get('shadow.elevation.2')!, flat)).toBe(
+      '0px 3px 1px -2px rgba(0, 0, 0, 0.2), 0px 2px 2px 0px rgba(0, 0, 0, 0.14), 0px 1px 5px 0px rgba(0, 0, 0, 0.12)',
+    );
+  });
+
+  test('GRID styles are ignored', () => {
+    expect([...flat.keys()].some(p => p.includes('layout'))).toBe(false);
+  });
+});
+
+// ─── 4. Diff ─────────────────────────────────────────────────────────────────
+
+test.describe('diffTokens / formatDiff', () => {
+  test('an unchanged export has no changes', () => {
+    const { tokens } = figmaToDtcg(loadFixture());
+    expect(diffTokens(tokens, tokens)).toEqual([]);
+    expect(formatDiff([])).toBe('No token changes.');
+  });
+
+  test('changed, added and removed tokens are listed by path', () => {
+    const before = figmaToDtcg(loadFixture()).tokens;
+
+    const source = loadFixture();
+    const primary = variableNamed(source, 'color/primary/main');
+    (primary.valuesByMode['1:0'] as FigmaColor).r = 0x30 / 255;
+    variableNamed(source, 'radius/button').name = 'radius/control';
+    const after = figmaToDtcg(source).tokens;
+
+    const changes = diffTokens(before, after);
+    expect(changes).toEqual([
+      { path: 'color.primary.main', before: '#265DA5', after: '#305DA5' },
+      { path: 'radius.button',      before: '4px',     after: undefined },
+      { path: 'radius.control',     before: undefined, after: '4px' },
+    ]);
+    expect(formatDiff(changes)).toBe([
+      '3 token changes:',
+      '  ~ color.primary.main  #265DA5 → #305DA5',
+      '  - radius.button       4px',
+      '  + radius.control      4px',
+    ].join('\n'));
+  });
+
+  test('an alias that now resolves elsewhere counts as a change', () => {
+    const before = figmaToDtcg(loadFixture()).tokens;
+    const source = loadFixture();
+    (variableNamed(source, 'color/secondary/main').valuesByMode['1:0'] as FigmaColor).g = 0.5;
+    const paths = diffTokens(before, figmaToDtcg(source).tokens).map(c => c.path);
+    expect(paths).toEqual(['color.secondary.main', 'color.warning.main']);
+  });
+});
+
+// ─── 5. Helpers ──────────────────────────────────────────────────────────────
+
+test.describe('helpers', () => {
+  for (const [input, key] of [
+    ['Contrast Text', 'contrastText'],
+    ['contrastText',  'contrastText'],
+    ['Button',        'button'],
+    ['focus-ring',    'focusRing'],
+    ['2',             '2'],
+  ] as const) {
+    test(`tokenKey("${input}") → ${key}`, () => {
+      expect(tokenKey(input)).toBe(key);
+    });
+  }
+
+  test('circular aliases are rejected', () => {
+    const tokens: DtcgGroup = {
+      a: { $type: 'color', $value: '{b}' },
+      b: { $type: 'color', $value: '{a}' },
+    };
+    const flat = flattenTokens(tokens);
+    expect(() => toCssValue(flat.get('a')!, flat)).toThrow('Circular token alias: b → a');
+  });
+});
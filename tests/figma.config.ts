@@ -0,0 +1,42 @@
+// ─── Components under Figma comparison ────────────────────────────────────────
+//
+// One entry per component: the Figma file and COMPONENT_SET its references
+// are variants of, the Storybook story that renders it, and how each variant
+// property reaches the story — an arg, per-value args, or an interaction.
+//
+// download-figma-refs.ts and figma-drift.ts sync every entry (or the one
+// named by --component) into tests/__figma__/<name>/, and
+// figma-comparison.spec.ts compares each variant found there. Adding a
+// component to the comparison means adding an entry here and running
+// `npm run download-figma-refs -- --component <name>`.
+
+import {
+  BUTTON_COLORS, BUTTON_MANIFEST, BUTTON_SIZE_NAMES, BUTTON_VARIANTS,
+} from '../src/components/Button/manifest';
+import { FIGMA_STATES, INTERACTIVE_STATES, type FigmaComponentConfig } from './utils/figma-components';
+
+export const FIGMA_COMPONENTS: FigmaComponentConfig[] = [
+  {
+    name:         'button',
+    fileKey:      '0SGlWXx4nQMnLBUyMU7GZt',
+    componentSet: '1:1068',
+    story:        'components-button--playground',
+    target:       'button',
+    args:         { children: 'Label', disabled: 'false' },
+    properties: {
+      variant: { values: BUTTON_VARIANTS, arg: 'variant' },
+      color:   { values: BUTTON_COLORS,   arg: 'color' },
+      state:   { values: FIGMA_STATES,    map: INTERACTIVE_STATES },
+      size:    { values: BUTTON_SIZE_NAMES, expected: BUTTON_MANIFEST.figmaSizes, arg: 'size' },
+    },
+  },
+];
+
+/** The entry named `name`; throws listing the known names otherwise. */
+export function figmaComponent(name: string): FigmaComponentConfig {
+  const component = FIGMA_COMPONENTS.find(c => c.name === name);
+  if (!component) {
+    throw new Error(`Unknown component "${name}" — figma.config.ts has ${FIGMA_COMPONENTS.map(c => c.name).join(', ')}`);
+  }
+  return component;
+}
@@ -0,0 +1,120 @@
+import { test, expect } from '@playwright/test';
+import { openStory, css } from './utils/storybook';
+import { BUTTON_MANIFEST } from '../src/components/Button/manifest';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const { colors: COLORS, variants: VARIANTS, combinations } = BUTTON_MANIFEST;
+
+/** Same manifest as the Button — IconButton shares the token pipeline. */
+const enabled = (variant: string, color: string) =>
+  combinations.find(c => c.variant === variant && c.color === color)!.states.enabled;
+
+const STORIES = [
+  { id: 'components-iconbutton--playground', name: 'Playground', minButtons: 1  },
+  { id: 'components-iconbutton--variants',   name: 'Variants',   minButtons: 3  },
+  { id: 'components-iconbutton--sizes',      name: 'Sizes',      minButtons: 2 * Object.keys(BUTTON_MANIFEST.sizes).length },
+  { id: 'components-iconbutton--all-colors', name: 'All Colors', minButtons: 36 },
+] as const;
+
+// ─── 1. All stories load ──────────────────────────────────────────────────────
+
+test.describe('IconButton stories — all variants visible', () => {
+  for (const story of STORIES) {
+    test(`${story.name} renders ≥ ${story.minButtons} button(s)`, async ({ page }) => {
+      await openStory(page, story.id);
+      const buttons = page.locator('button.icon-btn');
+      await expect(buttons.first()).toBeVisible();
+      expect(await buttons.count()).toBeGreaterThanOrEqual(story.minButtons);
+    });
+  }
+});
+
+// ─── 2. Design tokens — CSS values match Figma ───────────────────────────────
+
+test.describe('IconButton design tokens', () => {
+  for (const color of COLORS) {
+    test(`contained/${color} — background matches Figma token`, async ({ page }) => {
+      await openStory(page, 'components-iconbutton--playground', { variant: 'contained', color });
+      const btn = page.locator('button.icon-btn');
+      expect(await css(btn, 'background-color')).toBe(enabled('contained', color).backgroundColor);
+      expect(await css(btn, 'color')).toBe(enabled('contained', color).color);
+    });
+
+    test(`outlined/${color} — 50%-opacity border, token icon color`, async ({ page }) => {
+      await openStory(page, 'components-iconbutton--playground', { variant: 'outlined', color });
+      const btn = page.locator('button.icon-btn');
+      expect(await css(btn, 'background-color')).toBe('rgba(0, 0, 0, 0)');
+      expect(await css(btn, 'border-top-color')).toBe(enabled('outlined', color).borderColor);
+      expect(await css(btn, 'color')).toBe(enabled('outlined', color).color);
+    });
+
+    test(`text/${color} — icon color matches Figma token`, async ({ page }) => {
+      await openStory(page, 'components-iconbutton--playground', { variant: 'text', color });
+      const btn = page.locator('button.icon-btn');
+      expect(await css(btn, 'background-color')).toBe('rgba(0, 0, 0, 0)');
+      expect(await css(btn, 'color')).toBe(enabled('text', color).color);
+    });
+  }
+
+  for (const variant of VARIANTS) {
+    test(`${variant} — disabled uses the shared disabled tokens`, async ({ page }) => {
+      await openStory(page, 'components-iconbutton--playground', { variant, disabled: 'true' });
+      const btn = page.locator('button.icon-btn');
+      await expect(btn).toBeDisabled();
+      expect(await css(btn, 'color')).toBe('rgba(0, 0, 0, 0.38)');
+      expect(await css(btn, 'cursor')).toBe('not-allowed');
+    });
+  }
+
+  test('has an accessible name from aria-label', async ({ page }) => {
+    await openStory(page, 'components-iconbutton--playground');
+    await expect(page.getByRole('button', { name: 'Close' })).toBeVisible();
+  });
+});
+
+// ─── 3. Sizes & shapes ───────────────────────────────────────────────────────
+
+test.describe('IconButton sizes & shapes', () => {
+  // The box is the Button height of the same size and density; the icon keeps its size.
+  for (const [density, sizes] of Object.entries(BUTTON_MANIFEST.densities)) {
+    for (const [size, { height, iconSize }] of Object.entries(sizes)) {
+      const box  = parseInt(height);
+      const icon = parseInt(iconSize);
+      test(`${density}/size=${size} — ${box}×${box}px box, ${icon}px icon`, async ({ page }) => {
+        await openStory(page, 'components-iconbutton--playground', { variant: 'contained', size }, { density });
+        const btn = page.locator('button.icon-btn');
+        const rect = await btn.boundingBox();
+        expect(rect?.width).toBe(box);
+        expect(rect?.height).toBe(box);
+        const svg = await btn.locator('svg').boundingBox();
+        expect(svg?.width).toBe(icon);
+      });
+    }
+  }
+
+  test('shape=circular — fully rounded', async ({ page }) => {
+    await openStory(page, 'components-iconbutton--playground', { shape: 'circular' });
+    expect(await css(page.locator('button.icon-btn'), 'border-top-left-radius')).toBe('50%');
+  });
+
+  test('shape=square — 4px radius like Button', async ({ page }) => {
+    await openStory(page, 'components-iconbutton--playground', { shape: 'square' });
+    expect(await css(page.locator('button.icon-btn'), 'border-top-left-radius')).toBe('4px');
+  });
+});
+
+// ─── 4. Visual snapshots ─────────────────────────────────────────────────────
+
+test.describe('IconButton visual snapshots', () => {
+  for (const story of STORIES) {
+    test(`${story.name}`, async ({ page }) => {
+      await openStory(page, story.id);
+      await page.waitForTimeout(200);
+      await expect(page).toHaveScreenshot(`story-${story.id}.png`, {
+        fullPage: false,
+        animations: 'disabled',
+      });
+    });
+  }
+});
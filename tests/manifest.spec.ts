@@ -0,0 +1,106 @@
+import { test, expect } from '@playwright/test';
+import fs from 'node:fs';
+import path from 'node:path';
+import {
+  BUTTON_MANIFEST, BUTTON_SIZE_NAMES, BUTTON_STATES, buildButtonManifest,
+} from '../src/components/Button/manifest';
+import { BUTTON_SIZES, densityMetrics } from '../src/tokens/sizes';
+import { DARK_THEME, DEFAULT_THEME } from '../src/components/Button/tokens';
+
+// Pure unit tests of the Button manifest — no page. The browser suites iterate
+// it; these check it says what the tokens say, so they can trust it.
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const STORIES_FILE = path.join(process.cwd(), 'src', 'components', 'Button', 'Button.stories.tsx');
+
+const combination = (variant: string, color: string) =>
+  BUTTON_MANIFEST.combinations.find(c => c.variant === variant && c.color === color)!;
+
+// ─── 1. Coverage ──────────────────────────────────────────────────────────────
+
+test.describe('Button manifest — coverage', () => {
+  test('colors are the palette, sizes the size scale', () => {
+    expect(BUTTON_MANIFEST.colors).toEqual(Object.keys(DEFAULT_THEME.palette));
+    expect(BUTTON_SIZE_NAMES).toEqual(Object.keys(BUTTON_SIZES));
+    expect(Object.keys(BUTTON_MANIFEST.sizes)).toEqual(BUTTON_SIZE_NAMES);
+  });
+
+  test('one combination per variant × color, each with every state', () => {
+    const { variants, colors, combinations } = BUTTON_MANIFEST;
+    expect(combinations).toHaveLength(variants.length * colors.length);
+    for (const c of combinations) expect(Object.keys(c.states)).toEqual([...BUTTON_STATES]);
+  });
+
+  test('every color has a named story in Button.stories.tsx', () => {
+    // Story IDs must stay static CSF exports — the snapshots depend on them.
+    const source = fs.readFileSync(STORIES_FILE, 'utf8');
+    for (const color of BUTTON_MANIFEST.colors) {
+      const name = color[0].toUpperCase() + color.slice(1);
+      expect(source, `add: export const ${name}: Story = …`).toMatch(new RegExp(`^export const ${name}: Story`, 'm'));
+    }
+  });
+});
+
+// ─── 2. Expected values ───────────────────────────────────────────────────────
+
+test.describe('Button manifest — expected styles', () => {
+  test('contained/primary', () => {
+    const { states, focusRing, indicator } = combination('contained', 'primary');
+    expect(states.enabled).toEqual({
+      backgroundColor: 'rgb(38, 93, 165)',
+      color:           'rgb(255, 255, 255)',
+      borderColor:     'rgba(0, 0, 0, 0)',
+    });
+    expect(states.hover.backgroundColor).toBe('rgb(0, 52, 118)');
+    expect(states.disabled.backgroundColor).toBe('rgba(0, 0, 0, 0.12)');
+    expect(focusRing).toBe('rgb(38, 93, 165)');
+    expect(indicator).toBe('rgb(38, 93, 165)');
+  });
+
+  test('outlined/primary', () => {
+    const { states } = combination('outlined', 'primary');
+    expect(states.enabled).toEqual({
+      backgroundColor: 'rgba(0, 0, 0, 0)',
+      color:           'rgb(38, 93, 165)',
+      borderColor:     'rgba(38, 93, 165, 0.5)',
+    });
+    expect(states.hover.backgroundColor).toBe('rgba(38, 93, 165, 0.04)');
+    expect(states.hover.borderColor).toBe('rgba(38, 93, 165, 0.5)');
+    expect(states.disabled.color).toBe('rgba(0, 0, 0, 0.38)');
+  });
+
+  test('sizes are the size scale in px', () => {
+    for (const [size, m] of Object.entries(BUTTON_SIZES)) {
+      expect(BUTTON_MANIFEST.sizes[size as keyof typeof BUTTON_SIZES]).toEqual({
+        height:     `${m.height}px`,
+        fontSize:   `${m.fontSize}px`,
+        lineHeight: `${m.lineHeight}px`,
+        iconSize:   `${m.iconSize}px`,
+      });
+    }
+  });
+
+  test('compact density scales padding and keeps the border formula', () => {
+    const heights = (density: 'comfortable' | 'compact') =>
+      Object.values(BUTTON_MANIFEST.densities[density]).map(s => s.height);
+    expect(heights('comfortable')).toEqual(['48px', '42px', '36px', '30px', '24px']);
+    expect(heights('compact')).toEqual(['38px', '34px', '30px', '26px', '22px']);
+    for (const size of BUTTON_SIZE_NAMES) {
+      const m = densityMetrics(size, 'compact');
+      expect(m.paddingY * 2 + m.lineHeight + 2).toBe(m.height);
+      expect(m.fontSize).toBe(BUTTON_SIZES[size].fontSize);
+    }
+    expect(densityMetrics('large', 'compact')).toMatchObject({ paddingY: 3, paddingX: 17, textPaddingX: 8 });
+  });
+
+  test('the Figma sizes are part of the scale', () => {
+    for (const size of BUTTON_MANIFEST.figmaSizes) expect(BUTTON_SIZE_NAMES).toContain(size);
+  });
+
+  test('a theme gets its own manifest', () => {
+    const dark = buildButtonManifest(DARK_THEME);
+    const primary = dark.combinations.find(c => c.variant === 'text' && c.color === 'primary')!;
+    expect(primary.states.hover.backgroundColor).toBe('rgba(96, 138, 215, 0.08)');
+  });
+});
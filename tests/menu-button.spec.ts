@@ -0,0 +1,142 @@
+import { test, expect, type Page } from '@playwright/test';
+import { openStory, css } from './utils/storybook';
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+/** Opens the MenuButton playground and focuses its trigger. */
+async function focusTrigger(page: Page) {
+  await openStory(page, 'components-menubutton--playground');
+  const trigger = page.getByRole('button', { name: 'Export' });
+  await trigger.focus();
+  return trigger;
+}
+
+const focusedItem = (page: Page) => page.locator('[role="menuitem"]:focus');
+
+// ─── 1. Opening ──────────────────────────────────────────────────────────────
+
+test.describe('MenuButton — opening', () => {
+  test('trigger advertises a closed menu', async ({ page }) => {
+    const trigger = await focusTrigger(page);
+    await expect(trigger).toHaveAttribute('aria-haspopup', 'menu');
+    await expect(trigger).toHaveAttribute('aria-expanded', 'false');
+    await expect(page.getByRole('menu')).toHaveCount(0);
+  });
+
+  for (const key of ['Enter', ' ', 'ArrowDown'] as const) {
+    test(`${key === ' ' ? 'Space' : key} opens on the first item`, async ({ page }) => {
+      const trigger = await focusTrigger(page);
+      await page.keyboard.press(key);
+      const menu = page.getByRole('menu', { name: 'Export' });
+      await expect(menu).toBeVisible();
+      await expect(trigger).toHaveAttribute('aria-expanded', 'true');
+      await expect(trigger).toHaveAttribute('aria-controls', (await menu.getAttribute('id'))!);
+      await expect(focusedItem(page)).toHaveText('PDF');
+    });
+  }
+
+  test('ArrowUp opens on the last item', async ({ page }) => {
+    await focusTrigger(page);
+    await page.keyboard.press('ArrowUp');
+    await expect(focusedItem(page)).toHaveText('Spreadsheet');
+  });
+});
+
+// ─── 2. Navigation ───────────────────────────────────────────────────────────
+
+test.describe('MenuButton — navigation', () => {
+  test('arrow keys move, skip disabled items and wrap', async ({ page }) => {
+    await focusTrigger(page);
+    await page.keyboard.press('Enter');
+    await page.keyboard.press('ArrowDown');
+    await expect(focusedItem(page)).toHaveText('PNG image');
+    await page.keyboard.press('ArrowDown');          // skips disabled "PowerPoint"
+    await expect(focusedItem(page)).toHaveText('SVG vector');
+    await page.keyboard.press('ArrowDown');
+    await page.keyboard.press('ArrowDown');          // wraps to the top
+    await expect(focusedItem(page)).toHaveText('PDF');
+    await page.keyboard.press('ArrowUp');            // wraps to the bottom
+    await expect(focusedItem(page)).toHaveText('Spreadsheet');
+  });
+
+  test('Home and End jump to the first and last items', async ({ page }) => {
+    await focusTrigger(page);
+    await page.keyboard.press('Enter');
+    await page.keyboard.press('End');
+    await expect(focusedItem(page)).toHaveText('Spreadsheet');
+    await page.keyboard.press('Home');
+    await expect(focusedItem(page)).toHaveText('PDF');
+  });
+
+  test('typeahead finds items and cycles on a repeated character', async ({ page }) => {
+    await focusTrigger(page);
+    await page.keyboard.press('Enter');
+    await page.keyboard.press('s');
+    await expect(focusedItem(page)).toHaveText('SVG vector');
+    await page.keyboard.press('s');
+    await expect(focusedItem(page)).toHaveText('Spreadsheet');
+    await page.waitForTimeout(600);                  // let the buffer reset
+    await page.keyboard.type('pn');
+    await expect(focusedItem(page)).toHaveText('PNG image');
+  });
+
+  test('disabled items are announced as disabled', async ({ page }) => {
+    await focusTrigger(page);
+    await page.keyboard.press('Enter');
+    await expect(page.getByRole('menuitem', { name: 'PowerPoint' })).toHaveAttribute('aria-disabled', 'true');
+  });
+});
+
+// ─── 3. Closing ──────────────────────────────────────────────────────────────
+
+test.describe('MenuButton — closing', () => {
+  test('Escape closes and returns focus to the trigger', async ({ page }) => {
+    const trigger = await focusTrigger(page);
+    await page.keyboard.press('Enter');
+    await page.keyboard.press('Escape');
+    await expect(page.getByRole('menu')).toHaveCount(0);
+    await expect(trigger).toBeFocused();
+    await expect(trigger).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  test('Enter on an item closes and returns focus to the trigger', async ({ page }) => {
+    const trigger = await focusTrigger(page);
+    await page.keyboard.press('Enter');
+    await page.keyboard.press('ArrowDown');
+    await page.keyboard.press('Enter');
+    await expect(page.getByRole('menu')).toHaveCount(0);
+    await expect(trigger).toBeFocused();
+  });
+
+  test('Tab closes the menu', async ({ page }) => {
+    await focusTrigger(page);
+    await page.keyboard.press('Enter');
+    await page.keyboard.press('Tab');
+    await expect(page.getByRole('menu')).toHaveCount(0);
+  });
+
+  test('clicking outside closes the menu', async ({ page }) => {
+    const trigger = await focusTrigger(page);
+    await trigger.click();
+    await expect(page.getByRole('menu')).toBeVisible();
+    await page.mouse.click(5, 5);
+    await expect(page.getByRole('menu')).toHaveCount(0);
+  });
+});
+
+// ─── 4. Theme ────────────────────────────────────────────────────────────────
+
+test.describe('MenuButton — theme', () => {
+  for (const [scheme, surface, text] of [
+    ['light', 'rgb(255, 255, 255)', 'rgba(0, 0, 0, 0.87)'],
+    ['dark',  'rgb(46, 46, 46)',    'rgb(255, 255, 255)'],
+  ] as const) {
+    test(`the menu takes the ${scheme} surface`, async ({ page }) => {
+      await openStory(page, 'components-menubutton--playground', undefined, { colorScheme: scheme });
+      await page.getByRole('button', { name: 'Export' }).click();
+      const menu = page.getByRole('menu');
+      expect(await css(menu, 'background-color')).toBe(surface);
+      expect(await css(page.getByRole('menuitem').first(), 'color')).toBe(text);
+    });
+  }
+});
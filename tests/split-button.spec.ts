@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import { openStory, css } from './utils/storybook';
+import { BUTTON_COLORS as COLORS, BUTTON_VARIANTS as VARIANTS } from '../src/components/Button/manifest';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+type Color = typeof COLORS[number];
+
+const RGB: Record<Color, string> = {
+  primary:   '38, 93, 165',
+  secondary: '151, 77, 0',
+  error:     '187, 0, 0',
+  warning:   '151, 77, 0',
+  info:      '0, 87, 213',
+  success:   '0, 113, 1',
+};
+
+// ─── 1. Structure ────────────────────────────────────────────────────────────
+
+test.describe('SplitButton — structure', () => {
+  test('primary action and a labelled menu toggle', async ({ page }) => {
+    await openStory(page, 'components-splitbutton--playground');
+    await expect(page.getByRole('button', { name: 'Save' })).toBeVisible();
+    const toggle = page.getByRole('button', { name: 'More options' });
+    await expect(toggle).toHaveAttribute('aria-haspopup', 'menu');
+    await expect(toggle).toHaveAttribute('aria-expanded', 'false');
+  });
+
+  test('the primary action does not open the menu', async ({ page }) => {
+    await openStory(page, 'components-splitbutton--playground');
+    await page.getByRole('button', { name: 'Save' }).click();
+    await expect(page.getByRole('menu')).toHaveCount(0);
+  });
+
+  // { xs: 'large', md: 'medium' }: both halves and the caret padding follow the viewport
+  for (const { width, height, padding } of [
+    { width: 375,  height: 42, padding: '10px' },
+    { width: 1000, height: 36, padding: '8px' },
+  ]) {
+    test(`viewport ${width}px — a breakpoint map sizes both halves`, async ({ page }) => {
+      await openStory(page, 'components-splitbutton--responsive');
+      await page.setViewportSize({ width, height: 800 });
+      const toggle = page.getByRole('button', { name: 'More options' });
+      expect((await page.getByRole('button', { name: 'Save' }).boundingBox())?.height).toBe(height);
+      expect((await toggle.boundingBox())?.height).toBe(height);
+      expect(await css(toggle, 'padding-left')).toBe(padding);
+    });
+  }
+});
+
+// ─── 2. Keyboard ─────────────────────────────────────────────────────────────
+
+test.describe('SplitButton — keyboard', () => {
+  test('Tab reaches the toggle, ArrowDown opens, Escape returns focus', async ({ page }) => {
+    await openStory(page, 'components-splitbutton--playground');
+    await page.getByRole('button', { name: 'Save' }).focus();
+    await page.keyboard.press('Tab');
+    const toggle = page.getByRole('button', { name: 'More options' });
+    await expect(toggle).toBeFocused();
+
+    await page.keyboard.press('ArrowDown');
+    await expect(page.getByRole('menu', { name: 'More options' })).toBeVisible();
+    await expect(page.locator('[role="menuitem"]:focus')).toHaveText('Save as draft');
+
+    await page.keyboard.press('End');
+    await expect(page.locator('[role="menuitem"]:focus')).toHaveText('Schedule…');
+
+    await page.keyboard.press('Escape');
+    await expect(page.getByRole('menu')).toHaveCount(0);
+    await expect(toggle).toBeFocused();
+  });
+
+  test('disabled split button cannot open', async ({ page }) => {
+    await openStory(page, 'components-splitbutton--playground', { disabled: 'true' });
+    await expect(page.getByRole('button', { name: 'Save' })).toBeDisabled();
+    await expect(page.getByRole('button', { name: 'More options' })).toBeDisabled();
+  });
+});
+
+// ─── 3. Variants × colors ────────────────────────────────────────────────────
+
+test.describe('SplitButton — every variant and color', () => {
+  for (const variant of VARIANTS) {
+    for (const color of COLORS) {
+      test(`${variant}/${color} — both halves styled, menu highlight uses the token`, async ({ page }) => {
+        await openStory(page, 'components-splitbutton--playground', { variant, color });
+        const toggle = page.getByRole('button', { name: 'More options' });
+        await expect(page.getByRole('button', { name: 'Save' })).toHaveClass(new RegExp(`btn--${variant}`));
+        await expect(toggle).toHaveClass(new RegExp(`btn--${variant}`));
+
+        await toggle.press('Enter');
+        const item = page.locator('[role="menuitem"]:focus');
+        await expect(item).toHaveText('Save as draft');
+        expect(await css(item, 'background-color')).toBe(`rgba(${RGB[color]}, 0.08)`);
+      });
+    }
+  }
+});
@@ -0,0 +1,101 @@
+import { test, expect } from '@playwright/test';
+import fs   from 'node:fs';
+import path from 'node:path';
+import { renderStaticStyles } from './utils/static-styles';
+import { packageVersion, STATIC_STYLES_FILE } from './build-tokens';
+import {
+  buildGroupVars, buildMenuVars, buildVars, DARK_THEME, DEFAULT_THEME, isStaticTheme, staticClasses,
+  type ButtonVariant, type CSSVars, type PaletteColor,
+} from '../src/components/Button/tokens';
+import { mergeTheme } from '../src/components/Theme/mergeTheme';
+
+// Pure unit tests of Button.static.css — no page. The browser side (pixel
+// parity with inline variables) is covered in button.spec.ts.
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const VARIANTS: ButtonVariant[] = ['contained', 'outlined', 'text'];
+const COLORS = Object.keys(DEFAULT_THEME.palette) as PaletteColor[];
+const ENABLED = ":not(:disabled, [aria-disabled='true'])";
+
+/** Selector → declared variables, from the committed stylesheet. */
+function parseRules(css: string): Map<string, CSSVars> {
+  const rules = new Map<string, CSSVars>();
+  for (const [, selector, body] of css.matchAll(/^([^\s/][^{]*?) \{\n([^}]*)\}/gm)) {
+    const vars = Object.fromEntries(
+      [...body.matchAll(/^\s*(--[\w-]+): (.*);$/gm)].map(([, name, value]) => [name, value]),
+    );
+    rules.set(selector, vars);
+  }
+  return rules;
+}
+
+// ─── 1. Checked-in output is up to date ───────────────────────────────────────
+
+test('Button.static.css is up to date', () => {
+  expect(fs.readFileSync(STATIC_STYLES_FILE, 'utf8'), 'run: npx tsx tests/build-tokens.ts')
+    .toBe(renderStaticStyles(packageVersion()));
+});
+
+test('Button.static.css is opt-in: no component imports it', () => {
+  const components = path.join(process.cwd(), 'src', 'components');
+  const importers = fs.readdirSync(components, { recursive: true, encoding: 'utf8' })
+    .filter(file => /\.tsx?$/.test(file))
+    .filter(file => fs.readFileSync(path.join(components, file), 'utf8').match(/^import .*Button\.static\.css';$/m));
+  expect(importers).toEqual([]);
+});
+
+// ─── 2. Rules reproduce buildVars ─────────────────────────────────────────────
+
+test.describe('Rules reproduce buildVars', () => {
+  const rules = parseRules(fs.readFileSync(STATIC_STYLES_FILE, 'utf8'));
+
+  for (const theme of [DEFAULT_THEME, DARK_THEME]) {
+    const scheme = theme.colorScheme;
+
+    for (const variant of VARIANTS) {
+      test(`${scheme}/${variant}`, () => {
+        const surface = rules.get(`.btn--${scheme}.btn--${variant}`)!;
+        expect(surface, 'disabled = surface only').toEqual(buildVars(theme, variant, 'primary', true));
+
+        for (const color of COLORS) {
+          const base = `.btn--${scheme}.btn--${variant}-${color}`;
+          expect({ ...surface, ...rules.get(base + ENABLED) }, color)
+            .toEqual(buildVars(theme, variant, color, false));
+          expect({ ...surface, ...rules.get(`${base}.btn--selected${ENABLED}`) }, `${color} selected`)
+            .toEqual(buildVars(theme, variant, color, false, true));
+        }
+      });
+    }
+
+    test(`${scheme}/button-group`, () => {
+      expect(rules.get(`.btn-group--${scheme}`)).toEqual(buildGroupVars(theme));
+    });
+
+    test(`${scheme}/menu`, () => {
+      expect(rules.get(`.menu--${scheme}`)).toEqual(buildMenuVars(theme));
+    });
+  }
+});
+
+// ─── 3. staticClasses ─────────────────────────────────────────────────────────
+
+test.describe('staticClasses', () => {
+  test('built-in themes and palette colors get classes', () => {
+    expect(staticClasses(DEFAULT_THEME, 'contained', 'primary')).toEqual(['btn--light', 'btn--contained-primary']);
+    expect(staticClasses(DARK_THEME, 'outlined', 'error', true))
+      .toEqual(['btn--dark', 'btn--outlined-error', 'btn--selected']);
+  });
+
+  test('custom colors stay inline', () => {
+    expect(staticClasses(DEFAULT_THEME, 'contained', '#7B1FA2')).toBeNull();
+  });
+
+  test('theme overrides stay inline', () => {
+    const theme = mergeTheme(DEFAULT_THEME, { shape: { borderRadius: '20px' } });
+    expect(isStaticTheme(theme)).toBe(false);
+    expect(staticClasses(theme, 'contained', 'primary')).toBeNull();
+    // No overrides: the merge returns the built-in theme itself
+    expect(isStaticTheme(mergeTheme(DARK_THEME, undefined))).toBe(true);
+  });
+});
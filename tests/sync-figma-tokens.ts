@@ -0,0 +1,110 @@
+/**
+ * Syncs design tokens from Figma variables and styles.
+ *
+ * Reads the file's local variables and its published color / text / effect
+ * styles, prints what changed, then writes:
+ *   src/tokens/figma.tokens.json   W3C Design Tokens (DTCG) format
+ *   src/tokens/figma.generated.ts  CSS-ready values imported by the components
+ *
+ * Run with:
+ *   FIGMA_API_TOKEN=<token> npx tsx tests/sync-figma-tokens.ts
+ *   npx tsx tests/sync-figma-tokens.ts --from tests/__fixtures__/figma-export.json
+ *
+ * Options:
+ *   --from <file>         read a saved export instead of calling the API
+ *   --save-export <file>  also save the API responses (e.g. to refresh the fixture)
+ *   --dry-run             print the diff, write nothing
+ */
+
+import fs   from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  diffTokens, figmaToDtcg, formatDiff, renderTokenModule,
+  type DtcgGroup, type FigmaExport, type FigmaNodesResponse,
+  type FigmaStylesResponse, type FigmaVariablesResponse,
+} from './utils/figma-tokens';
+
+const FILE_KEY    = '0SGlWXx4nQMnLBUyMU7GZt';
+const TOKENS_DIR  = path.join(process.cwd(), 'src', 'tokens');
+const DTCG_FILE   = path.join(TOKENS_DIR, 'figma.tokens.json');
+const MODULE_FILE = path.join(TOKENS_DIR, 'figma.generated.ts');
+
+// ─── Figma API ────────────────────────────────────────────────────────────────
+
+async function getJson<T>(endpoint: string, token: string): Promise<T> {
+  const res = await fetch(`https://api.figma.com/v1/files/${FILE_KEY}${endpoint}`, {
+    headers: { 'X-Figma-Token': token },
+  });
+  if (!res.ok) throw new Error(`Figma API ${endpoint}: ${res.status} ${await res.text()}`);
+  return res.json() as Promise<T>;
+}
+
+/** Variables, style metadata, then the style nodes that hold the values. */
+export async function fetchFigmaExport(token: string): Promise<FigmaExport> {
+  const variables = await getJson<FigmaVariablesResponse>('/variables/local', token);
+  const styles    = await getJson<FigmaStylesResponse>('/styles', token);
+  const ids       = styles.meta.styles.map(s => encodeURIComponent(s.node_id)).join(',');
+  const nodes     = ids
+    ? await getJson<FigmaNodesResponse>(`/nodes?ids=${ids}`, token)
+    : { nodes: {} };
+  return { fileKey: FILE_KEY, variables, styles, nodes };
+}
+
+// ─── Main ─────────────────────────────────────────────────────────────────────
+
+function option(name: string): string | undefined {
+  const i = process.argv.indexOf(name);
+  return i === -1 ? undefined : process.argv[i + 1];
+}
+
+async function main() {
+  const from       = option('--from');
+  const saveExport = option('--save-export');
+  const dryRun     = process.argv.includes('--dry-run');
+
+  let source: FigmaExport;
+  if (from) {
+    console.log(`Reading ${from}…`);
+    source = JSON.parse(fs.readFileSync(from, 'utf8')) as FigmaExport;
+  } else {
+    const token = process.env.FIGMA_API_TOKEN;
+    if (!token) {
+      console.error('Error: FIGMA_API_TOKEN environment variable is not set (or pass --from <export.json>).');
+      console.error('Usage: FIGMA_API_TOKEN=<your-token> npx tsx tests/sync-figma-tokens.ts');
+      process.exit(1);
+    }
+    console.log(`Fetching variables and styles for ${FILE_KEY}…`);
+    source = await fetchFigmaExport(token);
+  }
+
+  if (saveExport) {
+    fs.writeFileSync(saveExport, JSON.stringify(source, null, 2) + '\n');
+    console.log(`Saved export to ${saveExport}`);
+  }
+
+  const { tokens, warnings } = figmaToDtcg(source);
+  for (const warning of warnings) console.warn(`  ⚠  ${warning}`);
+
+  const previous: DtcgGroup = fs.existsSync(DTCG_FILE)
+    ? JSON.parse(fs.readFileSync(DTCG_FILE, 'utf8'))
+    : {};
+  const changes = diffTokens(previous, tokens);
+  console.log('\n' + formatDiff(changes) + '\n');
+
+  if (dryRun) {
+    console.log('Dry run — nothing written.');
+    return;
+  }
+
+  fs.mkdirSync(TOKENS_DIR, { recursive: true });
+  fs.writeFileSync(DTCG_FILE, JSON.stringify(tokens, null, 2) + '\n');
+  fs.writeFileSync(MODULE_FILE, renderTokenModule(tokens, source.fileKey));
+  console.log(`Wrote ${path.relative(process.cwd(), DTCG_FILE)}`);
+  console.log(`Wrote ${path.relative(process.cwd(), MODULE_FILE)}`);
+}
+
+// Only execute when run directly (not when imported by the tests)
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  main().catch(err => { console.error(err); process.exit(1); });
+}
@@ -0,0 +1,217 @@
+import { test, expect } from '@playwright/test';
+import { openStory, css } from './utils/storybook';
+import { DEFAULT_THEME } from '../src/components/Button/tokens';
+import { mergeTheme } from '../src/components/Theme/mergeTheme';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+/** SUB_BRAND_THEME main colors; hovers are computed by utils/color. */
+const SUB_BRAND = {
+  primary:   'rgb(0, 121, 107)',
+  secondary: 'rgb(194, 24, 91)',
+  radius:    '8px',
+};
+
+/** DARK_THEME values for primary, as computed styles. */
+const DARK = {
+  primary:       'rgb(96, 138, 215)',
+  label:         'rgba(0, 0, 0, 0.87)',
+  border:        'rgba(96, 138, 215, 0.5)',
+  hoverTint:     'rgba(96, 138, 215, 0.08)',
+  disabledBg:    'rgba(255, 255, 255, 0.12)',
+  disabledColor: 'rgba(255, 255, 255, 0.3)',
+};
+
+/** The Nested story's inner section. */
+const SECTION = {
+  primary:       'rgb(106, 27, 154)',
+  disabledBg:    'rgba(106, 27, 154, 0.12)',
+  disabledColor: 'rgba(106, 27, 154, 0.38)',
+};
+
+// ─── 1. mergeTheme ───────────────────────────────────────────────────────────
+
+test.describe('mergeTheme', () => {
+  test('returns the base theme untouched when there is nothing to merge', () => {
+    expect(mergeTheme(DEFAULT_THEME, undefined)).toBe(DEFAULT_THEME);
+  });
+
+  test('overriding main recomputes hover, channels and label color', () => {
+    const theme = mergeTheme(DEFAULT_THEME, { palette: { primary: { main: '#00796B' } } });
+    expect(theme.palette.primary).toEqual({
+      main: '#00796B', hover: '#004C40', rgb: '0,121,107', contrastText: '#ffffff',
+    });
+    expect(theme.palette.secondary).toBe(DEFAULT_THEME.palette.secondary);
+  });
+
+  test('explicit hover / contrastText win over computed ones', () => {
+    const theme = mergeTheme(DEFAULT_THEME, {
+      palette: { info: { main: '#FFEB3B', hover: '#C8B900', contrastText: '#000000' } },
+    });
+    expect(theme.palette.info).toEqual({
+      main: '#FFEB3B', hover: '#C8B900', rgb: '255,235,59', contrastText: '#000000',
+    });
+  });
+
+  test('deep-merges sections without mutating the base', () => {
+    const snapshot = structuredClone(DEFAULT_THEME);
+    const theme = mergeTheme(DEFAULT_THEME, { typography: { textTransform: 'none' }, shape: {} });
+    expect(theme.typography).toEqual({ ...DEFAULT_THEME.typography, textTransform: 'none' });
+    expect(theme.shape).toEqual(DEFAULT_THEME.shape);
+    expect(theme.disabled).toBe(DEFAULT_THEME.disabled);
+    expect(DEFAULT_THEME).toEqual(snapshot);
+  });
+
+  test('nested merges layer on top of each other', () => {
+    const outer = mergeTheme(DEFAULT_THEME, { shape: { borderRadius: '8px' } });
+    const inner = mergeTheme(outer, { palette: { primary: { main: '#6A1B9A' } } });
+    expect(inner.shape.borderRadius).toBe('8px');
+    expect(inner.palette.primary.main).toBe('#6A1B9A');
+  });
+});
+
+// ─── 2. Overrides ────────────────────────────────────────────────────────────
+
+test.describe('ThemeProvider — overrides', () => {
+  test('buttons outside the provider keep the Figma defaults', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--overrides');
+    const section = page.getByTestId('default');
+    const btn = section.locator('.btn--contained', { hasText: 'contained' });
+    expect(await css(btn, 'background-color')).toBe('rgb(38, 93, 165)');
+    expect(await css(btn, 'border-top-left-radius')).toBe('4px');
+    expect(await css(btn, 'text-transform')).toBe('uppercase');
+  });
+
+  test('buttons inside the provider use the sub-brand theme', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--overrides');
+    const section = page.getByTestId('sub-brand');
+
+    const contained = section.locator('.btn--contained', { hasText: 'contained' });
+    expect(await css(contained, 'background-color')).toBe(SUB_BRAND.primary);
+    expect(await css(contained, 'border-top-left-radius')).toBe(SUB_BRAND.radius);
+    expect(await css(contained, 'text-transform')).toBe('none');
+
+    const outlined = section.locator('.btn--outlined', { hasText: 'outlined' });
+    expect(await css(outlined, 'color')).toBe(SUB_BRAND.primary);
+    expect(await css(outlined, 'border-top-color')).toBe('rgba(0, 121, 107, 0.5)');
+
+    const secondary = section.getByRole('button', { name: 'Secondary' });
+    expect(await css(secondary, 'background-color')).toBe(SUB_BRAND.secondary);
+
+    expect(await css(section.getByRole('button', { name: 'Add' }), 'border-top-left-radius')).toBe(SUB_BRAND.radius);
+    expect(await css(section.getByRole('group'), 'border-top-left-radius')).toBe(SUB_BRAND.radius);
+  });
+
+  test('contained hover uses the computed hover shade', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--overrides');
+    const btn = page.getByTestId('sub-brand').locator('.btn--contained', { hasText: 'contained' });
+    await btn.hover();
+    await expect.poll(() => css(btn, 'background-color')).toBe('rgb(0, 76, 64)');
+  });
+});
+
+// ─── 3. Nested providers ─────────────────────────────────────────────────────
+
+test.describe('ThemeProvider — nested', () => {
+  test('inner provider overrides primary and inherits the rest', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--nested');
+
+    const outer = page.getByTestId('outer').locator('.btn--contained', { hasText: 'contained' });
+    expect(await css(outer, 'background-color')).toBe(SUB_BRAND.primary);
+
+    const inner = page.getByTestId('inner');
+    const contained = inner.locator('.btn--contained', { hasText: 'contained' });
+    expect(await css(contained, 'background-color')).toBe(SECTION.primary);
+    expect(await css(contained, 'border-top-left-radius')).toBe(SUB_BRAND.radius);
+    expect(await css(contained, 'text-transform')).toBe('none');
+    expect(await css(inner.getByRole('button', { name: 'Secondary' }), 'background-color')).toBe(SUB_BRAND.secondary);
+  });
+
+  test('inner provider overrides the disabled colors', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--nested');
+    const disabled = page.getByTestId('inner').getByRole('button', { name: 'Disabled' });
+    expect(await css(disabled, 'background-color')).toBe(SECTION.disabledBg);
+    expect(await css(disabled, 'color')).toBe(SECTION.disabledColor);
+  });
+});
+
+// ─── 4. Storybook toolbar ────────────────────────────────────────────────────
+
+test.describe('Theme toolbar', () => {
+  test('the theme global wraps any story in an example theme', async ({ page }) => {
+    await openStory(page, 'components-button--variants', undefined, { theme: 'pill' });
+    for (const btn of await page.locator('.btn').all()) {
+      expect(await css(btn, 'border-top-left-radius')).toBe('999px');
+    }
+  });
+
+  test('the default theme matches Figma', async ({ page }) => {
+    await openStory(page, 'components-button--variants', undefined, { theme: 'default' });
+    expect(await css(page.locator('.btn--contained').first(), 'background-color')).toBe('rgb(38, 93, 165)');
+  });
+});
+
+// ─── 5. Dark color scheme ────────────────────────────────────────────────────
+
+test.describe('Dark color scheme', () => {
+  test('colorScheme="dark" switches every token', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--color-schemes');
+    const dark = page.getByTestId('dark');
+
+    const contained = dark.locator('.btn--contained', { hasText: 'contained' });
+    expect(await css(contained, 'background-color')).toBe(DARK.primary);
+    expect(await css(contained, 'color')).toBe(DARK.label);
+
+    const outlined = dark.locator('.btn--outlined', { hasText: 'outlined' });
+    expect(await css(outlined, 'color')).toBe(DARK.primary);
+    expect(await css(outlined, 'border-top-color')).toBe(DARK.border);
+    await outlined.hover();
+    await expect.poll(() => css(outlined, 'background-color')).toBe(DARK.hoverTint);
+
+    const disabled = dark.getByRole('button', { name: 'Disabled' });
+    expect(await css(disabled, 'background-color')).toBe(DARK.disabledBg);
+    expect(await css(disabled, 'color')).toBe(DARK.disabledColor);
+  });
+
+  test('the light section next to it keeps the Figma tokens', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--color-schemes');
+    const light = page.getByTestId('light');
+    expect(await css(light.locator('.btn--contained', { hasText: 'contained' }), 'background-color')).toBe('rgb(38, 93, 165)');
+    const disabled = light.getByRole('button', { name: 'Disabled' });
+    expect(await css(disabled, 'background-color')).toBe('rgba(0, 0, 0, 0.12)');
+    expect(await css(disabled, 'color')).toBe('rgba(0, 0, 0, 0.38)');
+  });
+
+  test('the colorScheme global sets data-theme and dark tokens', async ({ page }) => {
+    await openStory(page, 'components-button--variants', undefined, { colorScheme: 'dark' });
+    await expect(page.locator('html')).toHaveAttribute('data-theme', 'dark');
+    expect(await css(page.locator('.btn--contained').first(), 'background-color')).toBe(DARK.primary);
+  });
+
+  for (const [media, expected] of [['dark', DARK.primary], ['light', 'rgb(38, 93, 165)']] as const) {
+    test(`system scheme follows prefers-color-scheme: ${media}`, async ({ page }) => {
+      await page.emulateMedia({ colorScheme: media });
+      await openStory(page, 'components-button--variants', undefined, { colorScheme: 'system' });
+      expect(await css(page.locator('.btn--contained').first(), 'background-color')).toBe(expected);
+    });
+  }
+
+  test('changing data-theme on <html> re-themes live', async ({ page }) => {
+    await page.emulateMedia({ colorScheme: 'light' });
+    await openStory(page, 'components-button--variants', undefined, { colorScheme: 'system' });
+    const btn = page.locator('.btn--contained').first();
+    expect(await css(btn, 'background-color')).toBe('rgb(38, 93, 165)');
+
+    await page.evaluate(() => { document.documentElement.dataset.theme = 'dark'; });
+    await expect.poll(() => css(btn, 'background-color')).toBe(DARK.primary);
+
+    await page.evaluate(() => { document.documentElement.dataset.theme = 'light'; });
+    await expect.poll(() => css(btn, 'background-color')).toBe('rgb(38, 93, 165)');
+  });
+
+  test('snapshot — both schemes', async ({ page }) => {
+    await openStory(page, 'components-themeprovider--color-schemes');
+    await page.waitForTimeout(200);
+    await expect(page).toHaveScreenshot('color-schemes.png', { animations: 'disabled' });
+  });
+});
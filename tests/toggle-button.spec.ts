@@ -0,0 +1,113 @@
+import { test, expect } from '@playwright/test';
+import { openStory, css } from './utils/storybook';
+import { BUTTON_COLORS as COLORS } from '../src/components/Button/manifest';
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+type Color = typeof COLORS[number];
+
+/** Selected-state tokens derived from the light palette (see buildVars). */
+const SELECTED: Record<Color, { hoverRgb: string; tint: string }> = {
+  primary:   { hoverRgb: 'rgb(0, 52, 118)', tint: 'rgba(38, 93, 165, 0.12)' },
+  secondary: { hoverRgb: 'rgb(100, 35, 0)', tint: 'rgba(151, 77, 0, 0.12)' },
+  error:     { hoverRgb: 'rgb(131, 0, 0)',  tint: 'rgba(187, 0, 0, 0.12)' },
+  warning:   { hoverRgb: 'rgb(100, 35, 0)', tint: 'rgba(151, 77, 0, 0.12)' },
+  info:      { hoverRgb: 'rgb(0, 47, 163)', tint: 'rgba(0, 87, 213, 0.12)' },
+  success:   { hoverRgb: 'rgb(0, 68, 0)',   tint: 'rgba(0, 113, 1, 0.12)' },
+};
+
+// ─── 1. Standalone ───────────────────────────────────────────────────────────
+
+test.describe('ToggleButton — standalone', () => {
+  test('click toggles aria-pressed (uncontrolled)', async ({ page }) => {
+    await openStory(page, 'components-togglebutton--playground');
+    const btn = page.getByRole('button', { name: 'Bold' });
+    await expect(btn).toHaveAttribute('aria-pressed', 'false');
+    await btn.click();
+    await expect(btn).toHaveAttribute('aria-pressed', 'true');
+    await btn.press('Space');
+    await expect(btn).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  for (const color of COLORS) {
+    test(`${color} — selected tokens for every variant`, async ({ page }) => {
+      await openStory(page, 'components-togglebutton--playground', { color, defaultSelected: 'true', variant: 'contained' });
+      const contained = page.locator('button.toggle-btn');
+      expect(await css(contained, 'background-color')).toBe(SELECTED[color].hoverRgb);
+
+      for (const variant of ['outlined', 'text'] as const) {
+        await openStory(page, 'components-togglebutton--playground', { color, defaultSelected: 'true', variant });
+        const btn = page.locator('button.toggle-btn');
+        await expect(btn).toHaveAttribute('aria-pressed', 'true');
+        expect(await css(btn, 'background-color')).toBe(SELECTED[color].tint);
+      }
+    });
+  }
+});
+
+// ─── 2. Exclusive group ──────────────────────────────────────────────────────
+
+test.describe('ToggleButtonGroup — exclusive', () => {
+  test('radio semantics with a single tab stop', async ({ page }) => {
+    await openStory(page, 'components-togglebutton--exclusive-group');
+    await expect(page.getByRole('radiogroup', { name: 'View' })).toBeVisible();
+    await expect(page.getByRole('radio', { name: 'List' })).toHaveAttribute('aria-checked', 'true');
+    await expect(page.getByRole('radio', { name: 'List' })).toHaveAttribute('tabindex', '0');
+    await expect(page.getByRole('radio', { name: 'Grid' })).toHaveAttribute('tabindex', '-1');
+    await expect(page.getByRole('radio', { name: 'Board' })).toHaveAttribute('tabindex', '-1');
+  });
+
+  test('arrow keys move focus and selection, wrapping', async ({ page }) => {
+    await openStory(page, 'components-togglebutton--exclusive-group');
+    await page.getByRole('radio', { name: 'List' }).focus();
+    await page.keyboard.press('ArrowRight');
+    const grid = page.getByRole('radio', { name: 'Grid' });
+    await expect(grid).toBeFocused();
+    await expect(grid).toHaveAttribute('aria-checked', 'true');
+    await expect(grid).toHaveAttribute('tabindex', '0');
+    await expect(page.getByRole('radio', { name: 'List' })).toHaveAttribute('aria-checked', 'false');
+
+    await page.keyboard.press('ArrowLeft');
+    await page.keyboard.press('ArrowLeft');
+    await expect(page.getByRole('radio', { name: 'Board' })).toBeFocused();
+  });
+
+  test('clicking the selected button keeps it selected', async ({ page }) => {
+    await openStory(page, 'components-togglebutton--exclusive-group');
+    const list = page.getByRole('radio', { name: 'List' });
+    await list.click();
+    await expect(list).toHaveAttribute('aria-checked', 'true');
+  });
+});
+
+// ─── 3. Multi-select group ───────────────────────────────────────────────────
+
+test.describe('ToggleButtonGroup — multiple', () => {
+  test('buttons toggle independently and are all tab stops', async ({ page }) => {
+    await openStory(page, 'components-togglebutton--multiple-group');
+    await expect(page.getByRole('group', { name: 'Text formatting' })).toBeVisible();
+    const bold   = page.getByRole('button', { name: 'Bold' });
+    const italic = page.getByRole('button', { name: 'Italic' });
+    await expect(bold).toHaveAttribute('aria-pressed', 'true');
+    await italic.click();
+    await expect(bold).toHaveAttribute('aria-pressed', 'true');
+    await expect(italic).toHaveAttribute('aria-pressed', 'true');
+    await bold.click();
+    await expect(bold).toHaveAttribute('aria-pressed', 'false');
+
+    await bold.focus();
+    await page.keyboard.press('Tab');
+    await expect(italic).toBeFocused();
+  });
+});
+
+// ─── 4. Theme ────────────────────────────────────────────────────────────────
+
+test.describe('ToggleButtonGroup — theme', () => {
+  test('the outline takes its radius from the theme, as ButtonGroup does', async ({ page }) => {
+    await openStory(page, 'components-togglebutton--exclusive-group', undefined, { theme: 'pill' });
+    const group = page.getByRole('radiogroup', { name: 'View' });
+    expect(await css(group, 'border-top-left-radius')).toBe('999px');
+    expect(await css(group.getByRole('radio').first(), 'border-top-left-radius')).toBe('999px');
+  });
+});
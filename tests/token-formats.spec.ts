@@ -0,0 +1,127 @@
+import { test, expect } from '@playwright/test';
+import fs   from 'node:fs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { buildTokenFiles, collectTokens } from './utils/token-formats';
+import { packageVersion, TOKENS_BUILD_DIR } from './build-tokens';
+import { BUTTON_DENSITIES, BUTTON_SIZES, densityMetrics, type ButtonSize } from '../src/tokens/sizes';
+import { DARK_THEME, DEFAULT_THEME } from '../src/components/Button/tokens';
+
+// Pure unit tests of the token export — no page, no network.
+
+// ─── Constants ────────────────────────────────────────────────────────────────
+
+const BUTTON_CSS      = path.join(process.cwd(), 'src', 'components', 'Button', 'Button.css');
+const ICON_BUTTON_CSS = path.join(process.cwd(), 'src', 'components', 'IconButton', 'IconButton.css');
+
+const readBuilt = (name: string) => fs.readFileSync(path.join(TOKENS_BUILD_DIR, name), 'utf8');
+
+// ─── 1. Checked-in output is up to date ───────────────────────────────────────
+
+test.describe('Built files are up to date', () => {
+  const files = buildTokenFiles(packageVersion());
+  for (const [name, contents] of Object.entries(files)) {
+    test(name, () => {
+      expect(readBuilt(name), 'run: npx tsx tests/build-tokens.ts').toBe(contents);
+    });
+  }
+});
+
+// ─── 2. Formats ───────────────────────────────────────────────────────────────
+
+test.describe('Formats', () => {
+  test('CSS declares the light palette on :root and dark overrides', () => {
+    const css = readBuilt('tokens.css');
+    const primary = DEFAULT_THEME.palette.primary;
+    expect(css).toContain(`--ds-color-primary-main: ${primary.main};`);
+    expect(css).toContain(`--ds-color-primary-rgb: ${primary.rgb.split(',').join(', ')};`);
+    expect(css).toContain(`--ds-button-medium-height: ${BUTTON_SIZES.medium.height}px;`);
+    expect(css).toMatch(/\[data-theme='dark'\] \{[^}]*--ds-color-primary-main: #608AD7;/);
+    expect(css).toContain("@media (prefers-color-scheme: dark) {\n  :root:not([data-theme='light']) {");
+  });
+
+  test('dark scheme only lists values that change', () => {
+    const { base, dark } = collectTokens();
+    const baseValues = new Map(base.map(t => [t.path.join('.'), t.value]));
+    expect(dark.length).toBeGreaterThan(0);
+    for (const t of dark) {
+      expect(baseValues.has(t.path.join('.')), t.path.join('.')).toBe(true);
+      expect(baseValues.get(t.path.join('.'))).not.toBe(t.value);
+    }
+    // Border tint is the same in both schemes
+    expect(DARK_THEME.tint.border).toBe(DEFAULT_THEME.tint.border);
+    expect(dark.find(t => t.path.join('.') === 'tint.border')).toBeUndefined();
+  });
+
+  test('JSON is flat, versioned and carries the dark values', () => {
+    const json = JSON.parse(readBuilt('tokens.json'));
+    expect(json.$version).toBe(packageVersion());
+    expect(json['color.primary.main']).toBe(DEFAULT_THEME.palette.primary.main);
+    expect(json['dark.color.primary.main']).toBe(DARK_THEME.palette.primary.main);
+    expect(json['button.small.icon-size']).toBe(`${BUTTON_SIZES.small.iconSize}px`);
+    for (const value of Object.values(json)) expect(typeof value).not.toBe('object');
+  });
+
+  test('SCSS has flat variables and maps, with comma lists parenthesised in maps', () => {
+    const scss = readBuilt('_tokens.scss');
+    expect(scss).toContain(`$ds-color-primary-main: ${DEFAULT_THEME.palette.primary.main};`);
+    for (const map of ['palette', 'palette-dark', 'button-sizes', 'breakpoints']) {
+      expect(scss).toContain(`$ds-${map}: (\n`);
+    }
+    expect(scss).toMatch(/'rgb': \(38, 93, 165\)/);
+    // Balanced parentheses — a stray one breaks the whole stylesheet
+    expect(scss.split('(').length).toBe(scss.split(')').length);
+  });
+
+  test('Tailwind preset is an importable config', async () => {
+    const preset = (await import(pathToFileURL(path.join(TOKENS_BUILD_DIR, 'tailwind-preset.js')).href)).default;
+    const { extend } = preset.theme;
+    expect(extend.colors.primary).toEqual({
+      DEFAULT:  DEFAULT_THEME.palette.primary.main,
+      hover:    DEFAULT_THEME.palette.primary.hover,
+      contrast: DEFAULT_THEME.palette.primary.contrastText,
+    });
+    expect(extend.colors.dark.primary.DEFAULT).toBe(DARK_THEME.palette.primary.main);
+    expect(extend.height['button-large']).toBe(`${BUTTON_SIZES.large.height}px`);
+    expect(extend.fontSize['button-small']).toEqual(['13px', '22px']);
+    expect(extend.fontFamily.button).toEqual(['Roboto', 'sans-serif']);
+    expect(extend.screens).not.toHaveProperty('xs');
+  });
+});
+
+// ─── 3. Size scale matches the stylesheets ────────────────────────────────────
+
+test.describe('BUTTON_SIZES matches the CSS', () => {
+  const buttonCss = fs.readFileSync(BUTTON_CSS, 'utf8');
+  const iconCss   = fs.readFileSync(ICON_BUTTON_CSS, 'utf8');
+
+  for (const [size, m] of Object.entries(BUTTON_SIZES)) {
+    test(size, () => {
+      const rule = buttonCss.match(new RegExp(`\\.btn--${size}\\s*\\{([^}]*)\\}`))![1];
+      expect(rule).toMatch(new RegExp(`--btn-py: ${m.paddingY}px;`));
+      expect(rule).toMatch(new RegExp(`--btn-px: ${m.paddingX}px;`));
+      expect(rule).toMatch(new RegExp(`--btn-text-px: ${m.textPaddingX}px;`));
+      expect(rule).toMatch(new RegExp(`--btn-font-size: ${m.fontSize}px;`));
+      expect(rule).toMatch(new RegExp(`--btn-line-height: ${m.lineHeight}px;`));
+      // 1px transparent border top and bottom
+      expect(m.paddingY * 2 + m.lineHeight + 2).toBe(m.height);
+
+      const icon = iconCss.match(new RegExp(`\\.icon-btn--${size}\\s*\\{([^}]*)\\}`))![1];
+      expect(icon).toContain(`width: ${m.height}px; height: ${m.height}px; font-size: ${m.iconSize}px;`);
+    });
+  }
+
+  test('compact density factors match the .btn--compact rule', () => {
+    const rule = buttonCss.match(/\.btn--compact\s*\{([^}]*)\}/)![1];
+    expect(rule).toContain(`--btn-density-py: ${BUTTON_DENSITIES.compact.paddingY};`);
+    expect(rule).toContain(`--btn-density-px: ${BUTTON_DENSITIES.compact.paddingX};`);
+  });
+
+  for (const size of Object.keys(BUTTON_SIZES) as ButtonSize[]) {
+    test(`compact ${size} — IconButton box is the compact height`, () => {
+      const m = densityMetrics(size, 'compact');
+      const icon = iconCss.match(new RegExp(`\\.btn--compact\\.icon-btn--${size}\\s*\\{([^}]*)\\}`))![1];
+      expect(icon).toContain(`width: ${m.height}px; height: ${m.height}px;`);
+    });
+  }
+});
@@ -0,0 +1,243 @@
+// ─── Contrast audit ───────────────────────────────────────────────────────────
+//
+// Checks every variant × color × state of the Button against WCAG 2.x, using
+// the CSS variables `buildVars` actually emits — not the raw palette — so a
+// tint, an alpha label or a theme override is audited the way it renders.
+//
+//   enabled / hover / active   --btn-color on --btn-bg / -hover-bg / -active-bg
+//   selected / selectedHover / selectedActive
+//                              the same, from the selected (toggle) vars
+//   disabled                   --btn-disabled-color on --btn-disabled-bg
+//   focus                      --btn-focus-ring on the page background
+//
+// Translucent values are flattened onto what's beneath them (the button
+// surface onto the page, the label onto the surface) before measuring.
+// Pure: tests/contrast-audit.ts prints the report, the spec gates on it.
+
+import {
+  apcaContrast, composite, contrastRatio, parseAlpha, parseColor, toHex, type RGB,
+} from '../../src/utils/color';
+import {
+  buildVars, DARK_THEME, DEFAULT_THEME,
+  type ButtonColor, type ButtonVariant, type ColorScheme, type CSSVars, type Theme,
+} from '../../src/components/Button/tokens';
+
+export const VARIANTS: ButtonVariant[] = ['contained', 'outlined', 'text'];
+export const STATES = [
+  'enabled', 'hover', 'active', 'selected', 'selectedHover', 'selectedActive', 'disabled', 'focus',
+] as const;
+export type AuditState = typeof STATES[number];
+
+/** The canvas buttons are audited on — Storybook's, see .storybook/preview.css. */
+export const PAGE_BACKGROUNDS: Record<ColorScheme, string> = {
+  light: '#FFFFFF',
+  dark:  '#121212',
+};
+
+export interface ContrastLevels {
+  /** Label text, WCAG 1.4.3 — 4.5 for AA, 7 for AAA. */
+  text:    number;
+  /** Focus ring against the page, WCAG 1.4.11 — 3. */
+  nonText: number;
+  /** Disabled label; WCAG exempts inactive controls, so null reports only. */
+  disabled: number | null;
+  /** Minimum |Lc| for label text, or null to leave APCA out of pass / fail. */
+  apca:    number | null;
+}
+
+export interface AllowlistEntry {
+  /**
+   * One result id, spelled out — `light/contained/secondary/enabled`. No
+   * wildcards, and never a focus ring: each exception is signed off on its own.
+   */
+  id:     string;
+  /** Who accepted it and why — printed in the report. */
+  reason: string;
+}
+
+export interface AuditConfig {
+  levels:    ContrastLevels;
+  allowlist: AllowlistEntry[];
+}
+
+export type AuditStatus = 'pass' | 'fail' | 'allowed' | 'exempt';
+
+export interface AuditResult {
+  /** `scheme/variant/color/state`, what the allowlist matches on. */
+  id:         string;
+  scheme:     ColorScheme;
+  variant:    ButtonVariant;
+  color:      ButtonColor;
+  state:      AuditState;
+  /** Flattened, opaque colors that were measured. */
+  foreground: string;
+  background: string;
+  ratio:      number;
+  apca:       number;
+  required:   number | null;
+  status:     AuditStatus;
+  /** Allowlist reason, for `allowed` results. */
+  reason?:    string;
+}
+
+export interface AuditReport {
+  results: AuditResult[];
+  /** Allowlist entries that matched nothing failing — remove them. */
+  unusedAllowlist: AllowlistEntry[];
+}
+
+// ─── Measuring ────────────────────────────────────────────────────────────────
+
+/** `value` flattened onto the opaque `under`; `transparent` is `under` itself. */
+function flatten(value: string, under: RGB): RGB {
+  if (value === 'transparent') return under;
+  const rgb = parseColor(value);
+  if (!rgb) throw new Error(`Contrast audit: can't measure "${value}"`);
+  return composite(rgb, parseAlpha(value), under);
+}
+
+/** The `buildVars` call a state reads: plain, disabled or selected. */
+type VarSet = 'enabled' | 'disabled' | 'selected';
+
+/** Foreground / background variables of each state, and where they come from. */
+const STATE_VARS: Record<AuditState, [fg: string, bg: string | null, from: VarSet]> = {
+  enabled:        ['--btn-color',          '--btn-bg',          'enabled'],
+  hover:          ['--btn-color',          '--btn-hover-bg',    'enabled'],
+  active:         ['--btn-color',          '--btn-active-bg',   'enabled'],
+  selected:       ['--btn-color',          '--btn-bg',          'selected'],
+  selectedHover:  ['--btn-color',          '--btn-hover-bg',    'selected'],
+  selectedActive: ['--btn-color',          '--btn-active-bg',   'selected'],
+  disabled:       ['--btn-disabled-color', '--btn-disabled-bg', 'disabled'],
+  focus:          ['--btn-focus-ring',     null,                'enabled'],
+};
+
+function requiredLevel(state: AuditState, levels: ContrastLevels): number | null {
+  if (state === 'disabled') return levels.disabled;
+  if (state === 'focus')    return levels.nonText;
+  return levels.text;
+}
+
+/**
+ * Throws on entries the audit won't honour: wildcards or a malformed id,
+ * which hide combinations nobody looked at, and focus rings, which 1.4.11
+ * needs visible whatever the palette.
+ */
+export function validateAllowlist(allowlist: AllowlistEntry[]): void {
+  for (const { id } of allowlist) {
+    const segments = id.split('/');
+    if (segments.length !== 4 || segments.some(s => !s || s.includes('*'))) {
+      throw new Error(`Contrast allowlist: "${id}" must be one scheme/variant/color/state, without wildcards`);
+    }
+    if (segments[3] === 'focus') {
+      throw new Error(`Contrast allowlist: "${id}" — focus rings can't be allowlisted`);
+    }
+  }
+}
+
+// ─── Audit ────────────────────────────────────────────────────────────────────
+
+export interface AuditOptions {
+  /** Themes by scheme; defaults to DEFAULT_THEME and DARK_THEME. */
+  themes?: Partial<Record<ColorScheme, Theme>>;
+  /** Colors to audit; defaults to every palette color. Custom CSS colors work too. */
+  colors?: ButtonColor[];
+}
+
+export function auditContrast(
+  { levels, allowlist }: AuditConfig,
+  { themes = { light: DEFAULT_THEME, dark: DARK_THEME }, colors }: AuditOptions = {},
+): AuditReport {
+  validateAllowlist(allowlist);
+  const results: AuditResult[] = [];
+  const used = new Set<AllowlistEntry>();
+
+  for (const [scheme, theme] of Object.entries(themes) as [ColorScheme, Theme][]) {
+    const page = parseColor(PAGE_BACKGROUNDS[scheme])!;
+
+    for (const variant of VARIANTS) {
+      for (const color of colors ?? Object.keys(theme.palette)) {
+        const vars: Record<VarSet, CSSVars> = {
+          enabled:  buildVars(theme, variant, color, false),
+          disabled: buildVars(theme, variant, color, true),
+          selected: buildVars(theme, variant, color, false, true),
+        };
+
+        for (const state of STATES) {
+          const [fgVar, bgVar, from] = STATE_VARS[state];
+          const v = vars[from];
+          const bg = bgVar ? flatten(v[bgVar], page) : page;
+          const fg = flatten(v[fgVar], bg);
+
+          const id       = `${scheme}/${variant}/${color}/${state}`;
+          const ratio    = contrastRatio(fg, bg);
+          const apca     = apcaContrast(fg, bg);
+          const required = requiredLevel(state, levels);
+          const apcaFail = levels.apca !== null && state !== 'focus' && state !== 'disabled'
+            && Math.abs(apca) < levels.apca;
+
+          let status: AuditStatus = required === null ? 'exempt' : 'pass';
+          let reason: string | undefined;
+          if (required !== null && (ratio < required || apcaFail)) {
+            const entry = allowlist.find(e => e.id === id);
+            if (entry) used.add(entry);
+            status = entry ? 'allowed' : 'fail';
+            reason = entry?.reason;
+          }
+
+          results.push({
+            id, scheme, variant, color, state,
+            foreground: toHex(fg), background: toHex(bg),
+            ratio, apca, required, status, reason,
+          });
+        }
+      }
+    }
+  }
+
+  return { results, unusedAllowlist: allowlist.filter(e => !used.has(e)) };
+}
+
+// ─── Report ───────────────────────────────────────────────────────────────────
+
+const STATUS_LABEL: Record<AuditStatus, string> = {
+  pass:    'pass',
+  fail:    'FAIL',
+  allowed: 'allowed',
+  exempt:  'exempt',
+};
+
+/** Plain-text table, one row per result, then a summary line. */
+export function formatReport(
+  { results, unusedAllowlist }: AuditReport,
+  { apca = false, failuresOnly = false } = {},
+): string {
+  const rows = (failuresOnly ? results.filter(r => r.status === 'fail' || r.status === 'allowed') : results)
+    .map(r => [
+      r.id,
+      r.foreground,
+      r.background,
+      `${r.ratio.toFixed(2)}:1`,
+      r.required === null ? '—' : `${r.required}:1`,
+      ...(apca ? [`Lc ${r.apca.toFixed(1)}`] : []),
+      STATUS_LABEL[r.status] + (r.reason ? ` (${r.reason})` : ''),
+    ]);
+  const head  = ['combination', 'fg', 'bg', 'ratio', 'required', ...(apca ? ['APCA'] : []), 'status'];
+  const width = head.map((h, i) => Math.max(h.length, ...rows.map(row => row[i].length)));
+  const line  = (cells: string[]) => cells
+    .map((c, i) => (i === cells.length - 1 ? c : c.padEnd(width[i])))
+    .join('  ');
+
+  const count = (status: AuditStatus) => results.filter(r => r.status === status).length;
+  const out = [
+    line(head),
+    line(width.map(w => '─'.repeat(w))),
+    ...rows.map(line),
+    '',
+    `${results.length} checks: ${count('pass')} pass, ${count('allowed')} allowed, `
+      + `${count('exempt')} exempt, ${count('fail')} failing`,
+  ];
+  for (const entry of unusedAllowlist) {
+    out.push(`Unused allowlist entry "${entry.id}" — it matches nothing failing; remove it.`);
+  }
+  return out.join('\n');
+}
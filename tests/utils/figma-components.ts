@@ -0,0 +1,306 @@
+// ─── Figma component set → reference nodes ────────────────────────────────────
+//
+// Pure transforms behind the Figma comparison, driven by a component's entry
+// in tests/figma.config.ts:
+//
+//   parseVariantName   `Variant=Contained, Color=Primary, State=Disabled, Size=Large`
+//                      → { variant: 'Contained', color: 'Primary', … }
+//   discoverNodes      a COMPONENT_SET → typed node list + warnings
+//   missingNodes       expected property combinations it lacks
+//   storyArgs          node → Storybook args; nodeInteraction → hover / focus / press
+//   renderNodeList     node list → tests/__figma__/<component>/nodes.json
+//   diffNodes          previous vs discovered, for the CLI's change listing
+//   referenceFile      node key + format / scale → file name in the component's directory
+//
+// No network or file access here; the CLIs and the spec do that.
+
+import path from 'node:path';
+
+// ─── Figma REST shapes (only the fields we read) ─────────────────────────────
+
+export interface FigmaComponentNode {
+  id:   string;
+  /** For a variant: its property values, `Prop=Value, Prop=Value`. */
+  name: string;
+  type: string;
+  /** Fills, strokes, bounds, child layers… — hashed as a whole by figma-sync. */
+  [property: string]: unknown;
+}
+
+export interface FigmaComponentSetNode {
+  id:       string;
+  name:     string;
+  type:     string;
+  children: FigmaComponentNode[];
+}
+
+/** GET /v1/files/:key/nodes?ids=<set> */
+export interface FigmaComponentSetResponse {
+  /** File version the nodes were read at; keys the download cache. */
+  version?:      string;
+  lastModified?: string;
+  nodes:         Record<string, { document: FigmaComponentSetNode } | null>;
+}
+
+// ─── Config ──────────────────────────────────────────────────────────────────
+
+/** The user action that puts a component into a Figma state. */
+export type FigmaInteraction = 'hover' | 'focus' | 'press';
+
+/** How one value of a variant property reaches the story. */
+export interface FigmaValueMapping {
+  /** Story args for the value, e.g. `{ disabled: 'true' }`. */
+  args?:        Record<string, string>;
+  interaction?: FigmaInteraction;
+}
+
+export interface FigmaPropertyConfig {
+  /** Values the code knows, lower-cased. Others are reported, not guessed. */
+  values:    readonly string[];
+  /** The values the Figma set should draw, when not all of `values`. */
+  expected?: readonly string[];
+  /** Story arg the value is passed to as is. */
+  arg?:      string;
+  /** Per value: args and / or an interaction, besides or instead of `arg`. */
+  map?:      Partial<Record<string, FigmaValueMapping>>;
+}
+
+/** One component under Figma comparison — an entry of FIGMA_COMPONENTS. */
+export interface FigmaComponentConfig {
+  /** Its directory under tests/__figma__, and the test titles' prefix. */
+  name:         string;
+  fileKey:      string;
+  /** The COMPONENT_SET whose variants are the references. */
+  componentSet: string;
+  /** Storybook story that renders one instance from args. */
+  story:        string;
+  /** Locator of the element compared, within the story. */
+  target:       string;
+  /** Args every variant gets, e.g. the label. */
+  args?:        Record<string, string>;
+  /** Variant properties by lower-cased Figma name, in node key order. */
+  properties:   Record<string, FigmaPropertyConfig>;
+}
+
+/** Figma state names of interactive components, lower-cased. */
+export const FIGMA_STATES = ['enabled', 'hovered', 'focused', 'pressed', 'disabled'] as const;
+export type FigmaState = typeof FIGMA_STATES[number];
+
+/** The mapping for a `State` property drawn with FIGMA_STATES. */
+export const INTERACTIVE_STATES: Record<FigmaState, FigmaValueMapping> = {
+  enabled:  {},
+  hovered:  { interaction: 'hover' },
+  focused:  { interaction: 'focus' },
+  pressed:  { interaction: 'press' },
+  disabled: { args: { disabled: 'true' } },
+};
+
+// ─── Typed nodes ─────────────────────────────────────────────────────────────
+
+export interface FigmaVariantNode {
+  /** Property values in config order, joined by `_` — also the reference's name. */
+  key:    string;
+  nodeId: string;
+  props:  Record<string, string>;
+}
+
+export const nodeKey = (props: Record<string, string>, component: FigmaComponentConfig) =>
+  Object.keys(component.properties).map(prop => props[prop]).join('_');
+
+/** References, nodes.json and figma-sync.json of a component. */
+export function figmaPaths(component: FigmaComponentConfig, root = path.join(process.cwd(), 'tests', '__figma__')) {
+  const dir = path.join(root, component.name);
+  return { dir, nodes: path.join(dir, 'nodes.json'), sync: path.join(dir, 'figma-sync.json') };
+}
+
+// ─── Reference files ─────────────────────────────────────────────────────────
+
+/** Device scale factors PNG references are exported at — and compared at. */
+export const FIGMA_SCALES = [1, 2, 3] as const;
+export type FigmaScale = typeof FIGMA_SCALES[number];
+
+/** A PNG at one scale, or the scale-free SVG for vector checks. */
+export type ReferenceKind =
+  | { format: 'png'; scale: FigmaScale }
+  | { format: 'svg' };
+
+/** `{key}.png`, `{key}@2x.png`, `{key}@3x.png` or `{key}.svg`. */
+export function referenceFile(key: string, kind: ReferenceKind): string {
+  if (kind.format === 'svg') return `${key}.svg`;
+  return kind.scale === 1 ? `${key}.png` : `${key}@${kind.scale}x.png`;
+}
+
+/** The inverse of referenceFile; null for anything else in the directory. */
+export function parseReferenceFile(file: string): { key: string; kind: ReferenceKind } | null {
+  const match = file.match(/^([^@]+?)(?:@([23])x)?\.(png|svg)$/);
+  if (!match) return null;
+  const [, key, scale, format] = match;
+  if (format === 'svg') return scale ? null : { key, kind: { format: 'svg' } };
+  return { key, kind: { format: 'png', scale: Number(scale ?? 1) as FigmaScale } };
+}
+
+// ─── Parsing ─────────────────────────────────────────────────────────────────
+
+/**
+ * Property values of a variant name, keyed by the lower-cased property name.
+ * Returns null when the name isn't a `Prop=Value` list (a stray layer).
+ */
+export function parseVariantName(name: string): Record<string, string> | null {
+  const props: Record<string, string> = {};
+  for (const part of name.split(',')) {
+    const match = part.match(/^\s*([^=]+?)\s*=\s*(.*?)\s*$/);
+    if (!match || !match[2]) return null;
+    props[match[1].toLowerCase()] = match[2];
+  }
+  return props;
+}
+
+export interface DiscoveryResult {
+  nodes:    FigmaVariantNode[];
+  /** Variants that couldn't be mapped — a property or value the code doesn't know. */
+  warnings: string[];
+}
+
+/**
+ * Every variant of the component's set as a typed node, in `key` order.
+ * Values are matched case-insensitively; unknown values and properties are
+ * reported rather than guessed, so a new Figma size or color shows up as a
+ * warning until the code has it too.
+ */
+export function discoverNodes(response: FigmaComponentSetResponse, component: FigmaComponentConfig): DiscoveryResult {
+  const setId = component.componentSet;
+  const set = response.nodes[setId]?.document;
+  if (!set) throw new Error(`Node ${setId} is missing from the response`);
+  if (set.type !== 'COMPONENT_SET') throw new Error(`Node ${setId} is a ${set.type}, not a COMPONENT_SET`);
+
+  const nodes: FigmaVariantNode[] = [];
+  const warnings: string[] = [];
+  const seen = new Map<string, string>();
+
+  for (const child of set.children) {
+    if (child.type !== 'COMPONENT') continue;
+    const parsed = parseVariantName(child.name);
+    if (!parsed) {
+      warnings.push(`${child.id} "${child.name}": not a variant name`);
+      continue;
+    }
+
+    const extra = Object.keys(parsed).filter(p => !(p in component.properties));
+    if (extra.length) warnings.push(`${child.id} "${child.name}": ignoring unknown ${extra.join(', ')}`);
+
+    const props: Record<string, string> = {};
+    const problems: string[] = [];
+    for (const [prop, { values }] of Object.entries(component.properties)) {
+      const value = parsed[prop]?.toLowerCase();
+      if (value === undefined)         problems.push(`no ${prop}`);
+      else if (!values.includes(value)) problems.push(`unknown ${prop} "${parsed[prop]}"`);
+      else                              props[prop] = value;
+    }
+    if (problems.length) {
+      warnings.push(`${child.id} "${child.name}": ${problems.join(', ')}`);
+      continue;
+    }
+
+    const key = nodeKey(props, component);
+    const previous = seen.get(key);
+    if (previous) {
+      warnings.push(`${child.id} "${child.name}": duplicates ${previous}, skipped`);
+      continue;
+    }
+    seen.set(key, child.id);
+    nodes.push({ key, nodeId: child.id, props });
+  }
+
+  nodes.sort((a, b) => a.key.localeCompare(b.key));
+  return { nodes, warnings };
+}
+
+/**
+ * Keys of the variants the comparison expects — every combination of the
+ * properties' `expected` values — that the component set doesn't have.
+ */
+export function missingNodes(nodes: FigmaVariantNode[], component: FigmaComponentConfig): string[] {
+  const keys = new Set(nodes.map(n => n.key));
+  let combinations: Record<string, string>[] = [{}];
+  for (const [prop, { values, expected = values }] of Object.entries(component.properties)) {
+    combinations = combinations.flatMap(props => expected.map(value => ({ ...props, [prop]: value })));
+  }
+  return combinations.map(props => nodeKey(props, component)).filter(key => !keys.has(key));
+}
+
+// ─── Story ───────────────────────────────────────────────────────────────────
+
+/** Storybook args rendering the variant: the base args, then each property's. */
+export function storyArgs(node: FigmaVariantNode, component: FigmaComponentConfig): Record<string, string> {
+  const args = { ...component.args };
+  for (const [prop, { arg, map }] of Object.entries(component.properties)) {
+    const value = node.props[prop];
+    if (arg) args[arg] = value;
+    Object.assign(args, map?.[value]?.args);
+  }
+  return args;
+}
+
+/** The interaction the variant is drawn in, if any. */
+export function nodeInteraction(node: FigmaVariantNode, component: FigmaComponentConfig): FigmaInteraction | undefined {
+  for (const [prop, { map }] of Object.entries(component.properties)) {
+    const interaction = map?.[node.props[prop]]?.interaction;
+    if (interaction) return interaction;
+  }
+  return undefined;
+}
+
+// ─── Output ──────────────────────────────────────────────────────────────────
+
+/** What tests/__figma__/<component>/nodes.json holds. */
+export interface FigmaNodeList {
+  fileKey:      string;
+  componentSet: string;
+  nodes:        FigmaVariantNode[];
+}
+
+/** nodes.json: one node per line, so a sync's diff reads like the change list. */
+export function renderNodeList(nodes: FigmaVariantNode[], component: FigmaComponentConfig): string {
+  return [
+    '{',
+    `  "fileKey": ${JSON.stringify(component.fileKey)},`,
+    `  "componentSet": ${JSON.stringify(component.componentSet)},`,
+    '  "nodes": [',
+    nodes.map(node => `    ${JSON.stringify(node)}`).join(',\n'),
+    '  ]',
+    '}',
+    '',
+  ].join('\n');
+}
+
+export interface NodeChange {
+  kind: 'added' | 'removed' | 'moved';
+  key:  string;
+  /** Node ids before / after. */
+  from?: string;
+  to?:   string;
+}
+
+export function diffNodes(before: FigmaVariantNode[], after: FigmaVariantNode[]): NodeChange[] {
+  const old = new Map(before.map(n => [n.key, n.nodeId]));
+  const now = new Map(after.map(n => [n.key, n.nodeId]));
+  const changes: NodeChange[] = [];
+  for (const [key, to] of now) {
+    const from = old.get(key);
+    if (from === undefined) changes.push({ kind: 'added', key, to });
+    else if (from !== to)   changes.push({ kind: 'moved', key, from, to });
+  }
+  for (const [key, from] of old) {
+    if (!now.has(key)) changes.push({ kind: 'removed', key, from });
+  }
+  return changes.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export function formatNodeDiff(changes: NodeChange[]): string {
+  if (!changes.length) return 'No node changes.';
+  const mark = { added: '+', removed: '-', moved: '~' } as const;
+  return changes.map(c => {
+    const ids = c.kind === 'moved' ? `${c.from} → ${c.to}` : c.to ?? c.from;
+    return `  ${mark[c.kind]} ${c.key} (${ids})`;
+  }).join('\n');
+}
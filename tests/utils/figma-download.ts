@@ -0,0 +1,246 @@
+// ─── Figma reference downloads ────────────────────────────────────────────────
+//
+// The network half of tests/download-figma-refs.ts, kept separate so it can be
+// pointed at a local stand-in server (tests/figma-download.spec.ts):
+//
+//   fetchWithRetry       fetch + status check, backoff on 429 / 5xx / network errors
+//   downloadReferences   Images API in batches → PNGs at one scale or SVGs, with
+//                        limited concurrency, content checks and a hash cache
+//
+// A reference is only replaced once a complete, valid file has arrived, so a
+// failed run never leaves an error page behind as `*.png` or `*.svg`.
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { createHash } from 'node:crypto';
+import { referenceFile, type ReferenceKind } from './figma-components';
+
+export const FIGMA_API = 'https://api.figma.com/v1';
+
+// ─── HTTP ─────────────────────────────────────────────────────────────────────
+
+export interface RetryOptions {
+  /** Attempts after the first. Default 4. */
+  retries?:     number;
+  /** First backoff delay; doubles per attempt. Default 500 ms. */
+  baseDelayMs?: number;
+  /** Upper bound for any delay, including a server's Retry-After. Default 30 s. */
+  maxDelayMs?:  number;
+  /** Per-attempt timeout. Default 60 s. */
+  timeoutMs?:   number;
+}
+
+/** Rate limits and server errors are worth another try; other statuses aren't. */
+export const isRetryable = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Delay before retry `attempt` (0-based). A Retry-After header — seconds or an
+ * HTTP date — wins over the exponential backoff; both are capped.
+ */
+export function retryDelay(attempt: number, retryAfter: string | null, options: RetryOptions = {}): number {
+  const { baseDelayMs = 500, maxDelayMs = 30_000 } = options;
+  let delay = baseDelayMs * 2 ** attempt;
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+    if (Number.isFinite(ms)) delay = Math.max(0, ms);
+  }
+  return Math.min(delay, maxDelayMs);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * fetch() that only resolves with a 2xx response. 429 / 5xx and network
+ * errors are retried with backoff; any other status fails straight away with
+ * the start of the response body in the message. Redirects are followed.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit = {}, options: RetryOptions = {}): Promise<Response> {
+  const { retries = 4, timeoutMs = 60_000 } = options;
+  for (let attempt = 0; ; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+    } catch (err) {
+      if (attempt >= retries) throw new Error(`GET ${url} failed after ${attempt + 1} attempts: ${err}`);
+      await sleep(retryDelay(attempt, null, options));
+      continue;
+    }
+    if (res.ok) return res;
+
+    const body = (await res.text()).slice(0, 200);
+    if (!isRetryable(res.status) || attempt >= retries) {
+      const tries = attempt ? ` after ${attempt + 1} attempts` : '';
+      throw new Error(`GET ${url}: ${res.status} ${res.statusText}${tries}${body ? ` — ${body}` : ''}`);
+    }
+    await sleep(retryDelay(attempt, res.headers.get('retry-after'), options));
+  }
+}
+
+// ─── Content / cache ──────────────────────────────────────────────────────────────
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+export const isPng = (data: Uint8Array) =>
+  data.length > PNG_SIGNATURE.length && PNG_SIGNATURE.equals(data.subarray(0, PNG_SIGNATURE.length));
+
+/** An SVG document — Figma's, with or without the XML declaration. */
+export function isSvg(data: Uint8Array): boolean {
+  const head = Buffer.from(data.subarray(0, 512)).toString('utf8').trimStart();
+  return /^(<\?xml[^>]*>\s*)?<svg[\s>]/.test(head);
+}
+
+export const sha256 = (data: Uint8Array) => createHash('sha256').update(data).digest('hex');
+
+export interface CacheEntry {
+  /** Figma file version the reference was rendered from. */
+  version: string;
+  /** Hash of the file as written — a reference edited on disk is re-downloaded. */
+  sha256:  string;
+}
+
+/** `referenceFile(nodeId, kind)` → what was last downloaded for it. */
+export interface DownloadCache {
+  entries: Record<string, CacheEntry>;
+}
+
+/** True when `dest` is the file the cache recorded under `cacheKey` at `version`. */
+export function isCached(cache: DownloadCache, cacheKey: string, version: string | undefined, dest: string): boolean {
+  const entry = cache.entries[cacheKey];
+  if (!version || entry?.version !== version || !fs.existsSync(dest)) return false;
+  return sha256(fs.readFileSync(dest)) === entry.sha256;
+}
+
+// ─── Scheduling ───────────────────────────────────────────────────────────────
+
+export function batches<T>(items: readonly T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+}
+
+/** Runs `fn` over `items` with at most `limit` calls in flight; results in input order. */
+export async function mapLimit<T, R>(items: readonly T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// ─── Downloads ────────────────────────────────────────────────────────────────
+
+export interface ReferenceRequest {
+  nodeId: string;
+  /** Where the file goes. */
+  dest:   string;
+}
+
+export interface DownloadOptions extends RetryOptions {
+  token:        string;
+  fileKey:      string;
+  /** Figma file version of the nodes; without it nothing counts as cached. */
+  version?:     string;
+  /** Updated in place with every file written. */
+  cache:        DownloadCache;
+  /** Default FIGMA_API; the tests point it at a local server. */
+  apiBase?:     string;
+  /** Parallel image downloads. Default 4. */
+  concurrency?: number;
+  /** Node ids per Images API call. Default 50. */
+  batchSize?:   number;
+  /** Default PNG at 1x. */
+  kind?:        ReferenceKind;
+  log?:         (line: string) => void;
+}
+
+export interface DownloadReport {
+  downloaded: string[];
+  cached:     string[];
+  /** Figma rendered no image (e.g. an invisible or empty node). */
+  missing:    string[];
+  failed:     { nodeId: string; error: string }[];
+}
+
+const PNG_1X: ReferenceKind = { format: 'png', scale: 1 };
+
+interface ImagesResponse {
+  err:    string | null;
+  images: Record<string, string | null>;
+}
+
+/** Image URLs for `ids`, one Images API call per batch. */
+async function imageUrls(ids: string[], options: DownloadOptions): Promise<Record<string, string | null>> {
+  const { token, fileKey, apiBase = FIGMA_API, batchSize = 50, kind = PNG_1X } = options;
+  const format = kind.format === 'svg' ? 'format=svg' : `format=png&scale=${kind.scale}`;
+  const urls: Record<string, string | null> = {};
+  for (const batch of batches(ids, batchSize)) {
+    const query = `ids=${batch.map(encodeURIComponent).join(',')}&${format}`;
+    const res   = await fetchWithRetry(`${apiBase}/images/${fileKey}?${query}`, {
+      headers: { 'X-Figma-Token': token },
+    }, options);
+    const json  = await res.json() as ImagesResponse;
+    if (json.err) throw new Error(`Figma API error: ${json.err}`);
+    Object.assign(urls, json.images);
+  }
+  return urls;
+}
+
+/** Downloads one file, checks it is a `kind` file, and only then moves it over `dest`. */
+async function downloadFile(url: string, dest: string, kind: ReferenceKind, options: RetryOptions): Promise<Buffer> {
+  const data = Buffer.from(await (await fetchWithRetry(url, {}, options)).arrayBuffer());
+  const [valid, expected] = kind.format === 'svg' ? [isSvg(data), 'an SVG'] : [isPng(data), 'a PNG'];
+  if (!valid) throw new Error(`${url} is not ${expected} (${data.length} bytes starting "${data.subarray(0, 16)}")`);
+  const tmp = `${dest}.download`;
+  fs.mkdirSync(path.dirname(dest), { recursive: true });
+  fs.writeFileSync(tmp, data);
+  fs.renameSync(tmp, dest);
+  return data;
+}
+
+/**
+ * Brings every reference of one kind up to date: nodes whose file matches the cache for
+ * this file version are skipped without an API call, the rest are rendered
+ * in batches and downloaded `concurrency` at a time. A failed image doesn't
+ * stop the others — check `report.failed`.
+ */
+export async function downloadReferences(refs: ReferenceRequest[], options: DownloadOptions): Promise<DownloadReport> {
+  const { version, cache, concurrency = 4, kind = PNG_1X, log = () => {} } = options;
+  const report: DownloadReport = { downloaded: [], cached: [], missing: [], failed: [] };
+  const cacheKey = (nodeId: string) => referenceFile(nodeId, kind);
+
+  const stale = refs.filter(({ nodeId, dest }) => {
+    if (!isCached(cache, cacheKey(nodeId), version, dest)) return true;
+    report.cached.push(nodeId);
+    return false;
+  });
+  if (!stale.length) return report;
+
+  log(`Fetching image URLs for ${stale.length} nodes…`);
+  const urls = await imageUrls(stale.map(r => r.nodeId), options);
+
+  await mapLimit(stale, concurrency, async ({ nodeId, dest }) => {
+    const url = urls[nodeId];
+    if (!url) {
+      log(`  ⚠  No image for ${nodeId}`);
+      report.missing.push(nodeId);
+      return;
+    }
+    try {
+      const data = await downloadFile(url, dest, kind, options);
+      if (version) cache.entries[cacheKey(nodeId)] = { version, sha256: sha256(data) };
+      log(`  ↓  ${path.basename(dest)}`);
+      report.downloaded.push(nodeId);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      log(`  ✗  ${path.basename(dest)}: ${error}`);
+      report.failed.push({ nodeId, error });
+    }
+  });
+  return report;
+}
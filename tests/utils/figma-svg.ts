@@ -0,0 +1,56 @@
+// ─── Figma SVG references ─────────────────────────────────────────────────────
+//
+// The SVG export of a component variant, read as geometry instead of pixels:
+// the container's outer size, corner radius, fill and stroke.
+// figma-comparison.spec.ts compares these with the rendered element's box and
+// computed styles, which holds at any device scale and isn't thrown off by
+// text antialiasing.
+//
+// Figma draws the container as the first <rect>: filled for e.g. contained
+// buttons, stroked (inset by half the stroke) for outlined ones. Labels are outlined to
+// <path>s and ignored; a drop shadow only adds a <filter> around the rect.
+
+import { parseColor, toComputedColor } from '../../src/utils/color';
+
+export interface SvgContainerShape {
+  /** Outer size of the container in CSS px, stroke included. */
+  width:      number;
+  height:     number;
+  radius:     number;
+  /** getComputedStyle() form; null when the container has no fill. */
+  background: string | null;
+  border:     string | null;
+}
+
+/** The only named colors Figma writes. */
+const NAMED: Record<string, string> = { white: '#ffffff', black: '#000000' };
+
+function attributes(tag: string): Record<string, string> {
+  return Object.fromEntries([...tag.matchAll(/([\w-]+)="([^"]*)"/g)].map(([, name, value]) => [name, value]));
+}
+
+/** A fill / stroke paint with its opacity, as getComputedStyle() would report it. */
+function paint(value: string | undefined, opacity: string | undefined): string | null {
+  if (!value || value === 'none' || value.startsWith('url(')) return null;
+  const rgb = parseColor(NAMED[value] ?? value);
+  if (!rgb) return null;
+  return toComputedColor(`rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${opacity ?? 1})`);
+}
+
+/** Container geometry of a Figma variant SVG; null when it has no <rect>. */
+export function parseSvgContainer(svg: string): SvgContainerShape | null {
+  const rect = svg.match(/<rect\b[^>]*>/);
+  if (!rect) return null;
+  const a = attributes(rect[0]);
+
+  const border = paint(a.stroke, a['stroke-opacity']);
+  // A stroke is centred on the rect's edge: half of it lies outside.
+  const outset = border ? Number(a['stroke-width'] ?? 1) / 2 : 0;
+  return {
+    width:      Number(a.width)  + 2 * outset,
+    height:     Number(a.height) + 2 * outset,
+    radius:     Number(a.rx ?? 0) + outset,
+    background: paint(a.fill, a['fill-opacity']),
+    border,
+  };
+}
@@ -0,0 +1,171 @@
+// ─── Figma sync manifest and drift ────────────────────────────────────────────
+//
+// tests/__figma__/<component>/figma-sync.json records what its references
+// were synced from: the file's version and lastModified, a hash of every variant's
+// properties, and a hash of every reference file (which doubles as the
+// download cache). tests/figma-drift.ts compares a newer read of the file
+// against it:
+//
+//   propertyHashes   node id → hash of the variant's subtree, ids left out
+//   buildSyncManifest / readSyncManifest / writeSyncManifest
+//   readNodeList     the component's checked-in nodes.json
+//   detectDrift      manifest vs live → per-variant property / visual changes
+//   formatDrift      the report the drift command prints
+
+import fs from 'node:fs';
+import { createHash } from 'node:crypto';
+import type { FigmaComponentSetResponse, FigmaNodeList, FigmaVariantNode } from './figma-components';
+import type { CacheEntry } from './figma-download';
+
+export interface SyncedNode {
+  nodeId:     string;
+  /** propertyHashes() of the variant at sync time. */
+  properties: string;
+}
+
+export interface FigmaSyncManifest {
+  fileKey:      string;
+  componentSet: string;
+  /** Figma file version / lastModified of the last sync; null from a recording without them. */
+  version:      string | null;
+  lastModified: string | null;
+  /** Node key → variant at sync time. */
+  nodes:        Record<string, SyncedNode>;
+  /** Reference file (`referenceFile(nodeId, kind)`) → version and sha256 as written. */
+  references:   Record<string, CacheEntry>;
+}
+
+// ─── Hashes ──────────────────────────────────────────────────────────────────
+
+/** JSON with sorted keys and without node ids, so equal content hashes equally. */
+function stableJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([key]) => key !== 'id')
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, v]) => `${JSON.stringify(key)}:${stableJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Node id → sha256 of each variant's properties (fills, strokes, bounds, its
+ * layers…) as the nodes API returns them. Ids are left out: a variant the
+ * designers re-created unchanged keeps its hash.
+ */
+export function propertyHashes(response: FigmaComponentSetResponse, setId: string): Record<string, string> {
+  const children = response.nodes[setId]?.document.children ?? [];
+  return Object.fromEntries(children.map(child =>
+    [child.id, createHash('sha256').update(stableJson(child)).digest('hex')],
+  ));
+}
+
+// ─── Manifest ────────────────────────────────────────────────────────────────
+
+export function buildSyncManifest(
+  response:   FigmaComponentSetResponse,
+  nodes:      Pick<FigmaVariantNode, 'key' | 'nodeId'>[],
+  references: Record<string, CacheEntry>,
+  { fileKey, setId }: { fileKey: string; setId: string },
+): FigmaSyncManifest {
+  const hashes = propertyHashes(response, setId);
+  return {
+    fileKey,
+    componentSet: setId,
+    version:      response.version ?? null,
+    lastModified: response.lastModified ?? null,
+    nodes:        Object.fromEntries(nodes.map(({ key, nodeId }) => [key, { nodeId, properties: hashes[nodeId] }])),
+    references:   Object.fromEntries(Object.entries(references).sort(([a], [b]) => a.localeCompare(b))),
+  };
+}
+
+export function readSyncManifest(file: string): FigmaSyncManifest | null {
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, 'utf8')) as FigmaSyncManifest;
+}
+
+export function writeSyncManifest(file: string, manifest: FigmaSyncManifest): void {
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + '\n');
+}
+
+/** The variants last synced, or none before the first sync. */
+export function readNodeList(file: string): FigmaVariantNode[] {
+  if (!fs.existsSync(file)) return [];
+  return (JSON.parse(fs.readFileSync(file, 'utf8')) as FigmaNodeList).nodes;
+}
+
+// ─── Drift ───────────────────────────────────────────────────────────────────
+
+export interface LiveFile {
+  version:      string | null;
+  lastModified: string | null;
+  nodes:        { key: string; nodeId: string; properties: string }[];
+  /** Node key → whether its render differs from the synced reference; absent when not checked. */
+  visual?:      Record<string, boolean>;
+}
+
+export interface DriftEntry {
+  key:    string;
+  /** `added` / `removed` from the component set, or what changed about the variant. */
+  change: 'added' | 'removed' | 'properties' | 'visual' | 'properties+visual';
+}
+
+export interface DriftReport {
+  from:    { version: string | null; lastModified: string | null };
+  to:      { version: string | null; lastModified: string | null };
+  entries: DriftEntry[];
+  /** False when renders weren't compared (a recording, or --no-visual). */
+  visualChecked: boolean;
+}
+
+export function detectDrift(manifest: FigmaSyncManifest, live: LiveFile): DriftReport {
+  const entries: DriftEntry[] = [];
+  const liveKeys = new Set(live.nodes.map(n => n.key));
+
+  for (const { key, properties } of live.nodes) {
+    const synced = manifest.nodes[key];
+    if (!synced) {
+      entries.push({ key, change: 'added' });
+      continue;
+    }
+    const props  = synced.properties !== properties;
+    const visual = live.visual?.[key] ?? false;
+    if (props && visual) entries.push({ key, change: 'properties+visual' });
+    else if (props)      entries.push({ key, change: 'properties' });
+    else if (visual)     entries.push({ key, change: 'visual' });
+  }
+  for (const key of Object.keys(manifest.nodes)) {
+    if (!liveKeys.has(key)) entries.push({ key, change: 'removed' });
+  }
+
+  return {
+    from:          { version: manifest.version, lastModified: manifest.lastModified },
+    to:            { version: live.version, lastModified: live.lastModified },
+    entries:       entries.sort((a, b) => a.key.localeCompare(b.key)),
+    visualChecked: live.visual !== undefined,
+  };
+}
+
+/**
+ * Changed variants grouped by their key up to the last property —
+ * `{variant}_{color}_{state}` for Button — with the last property's values
+ * (the sizes) that changed, under a line naming both file versions.
+ */
+export function formatDrift({ from, to, entries, visualChecked }: DriftReport): string {
+  const version = (v: DriftReport['from']) => `${v.version ?? 'unknown'} (${v.lastModified ?? 'unknown'})`;
+  const lines = [`Synced ${version(from)} → now ${version(to)}`];
+  if (!visualChecked) lines.push('Renders not compared — property changes only.');
+  if (!entries.length) return [...lines, 'No design drift.'].join('\n');
+
+  const groups = new Map<string, string[]>();
+  for (const { key, change } of entries) {
+    const component = key.slice(0, key.lastIndexOf('_'));
+    const size      = key.slice(key.lastIndexOf('_') + 1);
+    const label     = `${change}: ${component}`;
+    groups.set(label, [...groups.get(label) ?? [], size]);
+  }
+  lines.push(`${entries.length} variant${entries.length === 1 ? '' : 's'} drifted:`);
+  for (const [label, sizes] of groups) lines.push(`  ${label} (${sizes.join(', ')})`);
+  return lines.join('\n');
+}
@@ -0,0 +1,454 @@
+// ─── Figma → design tokens ────────────────────────────────────────────────────
+//
+// Pure transforms used by tests/sync-figma-tokens.ts (and its fixture tests):
+//
+//   figmaToDtcg         variables + style nodes → W3C Design Tokens (DTCG) tree
+//   renderTokenModule   DTCG tree → TypeScript module of CSS-ready values
+//   diffTokens          flattened before/after comparison
+//   formatDiff          readable `+ / - / ~` listing of a diff
+//
+// No network or file access here; the CLI does that.
+
+// ─── Figma REST shapes (only the fields we read) ─────────────────────────────
+
+export interface FigmaColor { r: number; g: number; b: number; a: number }
+export interface FigmaVariableAlias { type: 'VARIABLE_ALIAS'; id: string }
+export type FigmaVariableValue = FigmaColor | FigmaVariableAlias | number | string | boolean;
+
+export interface FigmaVariable {
+  id:                   string;
+  name:                 string;
+  variableCollectionId: string;
+  resolvedType:         'COLOR' | 'FLOAT' | 'STRING' | 'BOOLEAN';
+  valuesByMode:         Record<string, FigmaVariableValue>;
+  scopes?:              string[];
+  description?:         string;
+}
+
+export interface FigmaVariableCollection {
+  id:            string;
+  name:          string;
+  modes:         { modeId: string; name: string }[];
+  defaultModeId: string;
+  variableIds:   string[];
+}
+
+/** GET /v1/files/:key/variables/local */
+export interface FigmaVariablesResponse {
+  meta: {
+    variables:           Record<string, FigmaVariable>;
+    variableCollections: Record<string, FigmaVariableCollection>;
+  };
+}
+
+export interface FigmaStyleMeta {
+  node_id:      string;
+  style_type:   'FILL' | 'TEXT' | 'EFFECT' | 'GRID';
+  name:         string;
+  description?: string;
+}
+
+/** GET /v1/files/:key/styles */
+export interface FigmaStylesResponse {
+  meta: { styles: FigmaStyleMeta[] };
+}
+
+export interface FigmaPaint {
+  type:     string;
+  visible?: boolean;
+  opacity?: number;
+  color?:   FigmaColor;
+}
+
+export interface FigmaEffect {
+  type:    'DROP_SHADOW' | 'INNER_SHADOW' | 'LAYER_BLUR' | 'BACKGROUND_BLUR';
+  visible: boolean;
+  color?:  FigmaColor;
+  offset?: { x: number; y: number };
+  radius:  number;
+  spread?: number;
+}
+
+export interface FigmaTypeStyle {
+  fontFamily:    string;
+  fontWeight:    number;
+  fontSize:      number;
+  lineHeightPx:  number;
+  letterSpacing: number;
+  textCase?:     'ORIGINAL' | 'UPPER' | 'LOWER' | 'TITLE' | 'SMALL_CAPS' | 'SMALL_CAPS_FORCED';
+}
+
+export interface FigmaStyleNode {
+  id:       string;
+  name:     string;
+  fills?:   FigmaPaint[];
+  effects?: FigmaEffect[];
+  style?:   FigmaTypeStyle;
+}
+
+/** GET /v1/files/:key/nodes?ids=… for the style nodes */
+export interface FigmaNodesResponse {
+  nodes: Record<string, { document: FigmaStyleNode } | null>;
+}
+
+/** Everything the sync reads — also the format of a saved offline export. */
+export interface FigmaExport {
+  fileKey:   string;
+  variables: FigmaVariablesResponse;
+  styles:    FigmaStylesResponse;
+  nodes:     FigmaNodesResponse;
+}
+
+// ─── DTCG shapes ─────────────────────────────────────────────────────────────
+//
+// Format: https://www.designtokens.org/tr/drafts/format/ — colors as sRGB
+// component objects (exact, unlike 8-digit hex), dimensions as { value, unit }.
+
+export interface DtcgColor {
+  colorSpace: 'srgb';
+  components: [number, number, number];
+  alpha:      number;
+  hex:        string;
+}
+
+export interface DtcgDimension { value: number; unit: 'px' }
+
+export interface DtcgShadow {
+  color:   DtcgColor;
+  offsetX: DtcgDimension;
+  offsetY: DtcgDimension;
+  blur:    DtcgDimension;
+  spread:  DtcgDimension;
+  inset?:  boolean;
+}
+
+export interface DtcgTypography {
+  fontFamily:    string;
+  fontWeight:    number;
+  fontSize:      DtcgDimension;
+  /** Multiplier of fontSize, per the DTCG typography type. */
+  lineHeight:    number;
+  letterSpacing: DtcgDimension;
+}
+
+export type DtcgToken =
+  | { $type: 'color';      $value: DtcgColor | string;      $description?: string; $extensions?: DtcgExtensions }
+  | { $type: 'dimension';  $value: DtcgDimension | string;  $description?: string; $extensions?: DtcgExtensions }
+  | { $type: 'number';     $value: number | string;         $description?: string; $extensions?: DtcgExtensions }
+  | { $type: 'shadow';     $value: DtcgShadow[] | string;   $description?: string; $extensions?: DtcgExtensions }
+  | { $type: 'typography'; $value: DtcgTypography | string; $description?: string; $extensions?: DtcgExtensions };
+
+export interface DtcgExtensions {
+  'com.figma'?: { variableId?: string; styleId?: string; collection?: string; textCase?: string };
+}
+
+export interface DtcgGroup { [key: string]: DtcgToken | DtcgGroup }
+
+export function isToken(node: DtcgToken | DtcgGroup): node is DtcgToken {
+  return '$value' in node;
+}
+
+// ─── Figma → DTCG ────────────────────────────────────────────────────────────
+
+/** Variables whose FLOAT values are pixel lengths rather than plain numbers. */
+const DIMENSION_SCOPES = new Set([
+  'CORNER_RADIUS', 'WIDTH_HEIGHT', 'GAP', 'STROKE_FLOAT',
+  'FONT_SIZE', 'LINE_HEIGHT', 'LETTER_SPACING', 'EFFECT_FLOAT',
+]);
+
+const round = (n: number, digits = 4) => Number(n.toFixed(digits));
+
+/** "Contrast Text" → "contrastText"; "2" stays "2". */
+export function tokenKey(segment: string): string {
+  const words = segment.trim().split(/[\s_-]+/).filter(Boolean);
+  return words
+    .map((w, i) => (i === 0 ? w[0].toLowerCase() + w.slice(1) : w[0].toUpperCase() + w.slice(1)))
+    .join('');
+}
+
+function tokenPath(name: string): string[] {
+  return name.split('/').map(tokenKey);
+}
+
+function toDtcgColor({ r, g, b, a }: FigmaColor, opacity = 1): DtcgColor {
+  const hex = '#' + [r, g, b].map(c => Math.round(c * 255).toString(16).padStart(2, '0')).join('').toUpperCase();
+  return { colorSpace: 'srgb', components: [round(r), round(g), round(b)], alpha: round(a * opacity, 3), hex };
+}
+
+const px = (value: number): DtcgDimension => ({ value: round(value, 3), unit: 'px' });
+
+function isAlias(value: FigmaVariableValue): value is FigmaVariableAlias {
+  return typeof value === 'object' && 'type' in value && value.type === 'VARIABLE_ALIAS';
+}
+
+function setToken(root: DtcgGroup, path: string[], token: DtcgToken, warnings: string[]) {
+  let group = root;
+  for (const key of path.slice(0, -1)) {
+    const next = group[key] ?? (group[key] = {});
+    if (isToken(next)) {
+      warnings.push(`${path.join('.')}: "${key}" is already a token, skipped`);
+      return;
+    }
+    group = next;
+  }
+  const leaf = path[path.length - 1];
+  if (group[leaf]) {
+    warnings.push(`${path.join('.')}: duplicate name, kept the first`);
+    return;
+  }
+  group[leaf] = token;
+}
+
+export interface DtcgResult {
+  tokens:   DtcgGroup;
+  /** Things that were skipped and why; the CLI prints them. */
+  warnings: string[];
+}
+
+/**
+ * Converts local variables (default mode of each collection; aliases become
+ * DTCG `{path}` references) and FILL / TEXT / EFFECT styles (under `color`,
+ * `typography` and `shadow`) into one DTCG tree.
+ */
+export function figmaToDtcg(source: FigmaExport): DtcgResult {
+  const tokens: DtcgGroup = {};
+  const warnings: string[] = [];
+  const { variables, variableCollections } = source.variables.meta;
+
+  // ── Variables, in the order of Figma's variables panel ──
+  for (const collection of Object.values(variableCollections)) {
+    for (const id of collection.variableIds) {
+      const variable = variables[id];
+      if (!variable) continue;
+      const path  = tokenPath(variable.name);
+      const value = variable.valuesByMode[collection.defaultModeId];
+      const $extensions: DtcgExtensions = { 'com.figma': { variableId: id, collection: collection.name } };
+      const $description = variable.description || undefined;
+
+      let $value: string | undefined;
+      if (isAlias(value)) {
+        const target = variables[value.id];
+        if (!target) {
+          warnings.push(`${path.join('.')}: aliases a variable outside this file, skipped`);
+          continue;
+        }
+        $value = `{${tokenPath(target.name).join('.')}}`;
+      }
+
+      switch (variable.resolvedType) {
+        case 'COLOR':
+          setToken(tokens, path, { $type: 'color', $value: $value ?? toDtcgColor(value as FigmaColor), $description, $extensions }, warnings);
+          break;
+        case 'FLOAT': {
+          const isDimension = variable.scopes?.some(s => DIMENSION_SCOPES.has(s));
+          setToken(tokens, path, isDimension
+            ? { $type: 'dimension', $value: $value ?? px(value as number), $description, $extensions }
+            : { $type: 'number',    $value: $value ?? (value as number),   $description, $extensions },
+          warnings);
+          break;
+        }
+        default:
+          warnings.push(`${path.join('.')}: ${variable.resolvedType} variables have no DTCG type, skipped`);
+      }
+    }
+  }
+
+  // ── Styles, by name so the output order is stable ──
+  const styles = [...source.styles.meta.styles].sort((a, b) => a.name.localeCompare(b.name));
+  for (const style of styles) {
+    const node  = source.nodes.nodes[style.node_id]?.document;
+    const group = { FILL: 'color', TEXT: 'typography', EFFECT: 'shadow', GRID: null }[style.style_type];
+    if (!group) continue;
+    if (!node) {
+      warnings.push(`${style.name}: style node ${style.node_id} missing from the nodes response, skipped`);
+      continue;
+    }
+    const path = [group, ...tokenPath(style.name)];
+    const $extensions: DtcgExtensions = { 'com.figma': { styleId: style.node_id } };
+    const $description = style.description || undefined;
+
+    if (style.style_type === 'FILL') {
+      const paint = node.fills?.find(p => p.visible !== false && p.type === 'SOLID' && p.color);
+      if (!paint) {
+        warnings.push(`${style.name}: only solid fills are supported, skipped`);
+        continue;
+      }
+      setToken(tokens, path, { $type: 'color', $value: toDtcgColor(paint.color!, paint.opacity), $description, $extensions }, warnings);
+    } else if (style.style_type === 'TEXT' && node.style) {
+      const { fontFamily, fontWeight, fontSize, lineHeightPx, letterSpacing, textCase } = node.style;
+      if (textCase && textCase !== 'ORIGINAL') $extensions['com.figma']!.textCase = textCase;
+      setToken(tokens, path, {
+        $type: 'typography',
+        $value: {
+          fontFamily,
+          fontWeight,
+          fontSize:      px(fontSize),
+          lineHeight:    round(lineHeightPx / fontSize),
+          letterSpacing: px(letterSpacing),
+        },
+        $description,
+        $extensions,
+      }, warnings);
+    } else if (style.style_type === 'EFFECT') {
+      const shadows = (node.effects ?? [])
+        .filter(e => e.visible && (e.type === 'DROP_SHADOW' || e.type === 'INNER_SHADOW'))
+        .map((e): DtcgShadow => ({
+          color:   toDtcgColor(e.color ?? { r: 0, g: 0, b: 0, a: 1 }),
+          offsetX: px(e.offset?.x ?? 0),
+          offsetY: px(e.offset?.y ?? 0),
+          blur:    px(e.radius),
+          spread:  px(e.spread ?? 0),
+          ...(e.type === 'INNER_SHADOW' && { inset: true }),
+        }));
+      if (shadows.length === 0) {
+        warnings.push(`${style.name}: no visible shadows, skipped`);
+        continue;
+      }
+      setToken(tokens, path, { $type: 'shadow', $value: shadows, $description, $extensions }, warnings);
+    }
+  }
+
+  return { tokens, warnings };
+}
+
+// ─── Flattening & CSS values ─────────────────────────────────────────────────
+
+/** `color.primary.main` → token, depth-first in document order. */
+export function flattenTokens(group: DtcgGroup, prefix: string[] = []): Map<string, DtcgToken> {
+  const flat = new Map<string, DtcgToken>();
+  for (const [key, node] of Object.entries(group)) {
+    if (key.startsWith('$')) continue;
+    const path = [...prefix, key];
+    if (isToken(node)) flat.set(path.join('.'), node);
+    else for (const [p, t] of flattenTokens(node, path)) flat.set(p, t);
+  }
+  return flat;
+}
+
+export function cssColor({ hex, alpha }: DtcgColor): string {
+  if (alpha >= 1) return hex;
+  const [r, g, b] = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return `rgba(${r}, ${g}, ${b}, ${round(alpha, 3)})`;
+}
+
+const cssPx = (d: DtcgDimension) => `${d.value}${d.unit}`;
+
+const TEXT_TRANSFORM: Record<string, string> = { UPPER: 'uppercase', LOWER: 'lowercase', TITLE: 'capitalize' };
+
+/** Resolved value as the generated module stores it. */
+export type CssTokenValue = string | number | { [key: string]: string | number };
+
+function resolve(token: DtcgToken, flat: Map<string, DtcgToken>, seen: string[] = []): DtcgToken {
+  if (typeof token.$value !== 'string' || !token.$value.startsWith('{')) return token;
+  const ref = token.$value.slice(1, -1);
+  if (seen.includes(ref)) throw new Error(`Circular token alias: ${[...seen, ref].join(' → ')}`);
+  const target = flat.get(ref);
+  if (!target) throw new Error(`Unresolved token alias {${ref}}`);
+  return resolve(target, flat, [...seen, ref]);
+}
+
+export function toCssValue(token: DtcgToken, flat: Map<string, DtcgToken>): CssTokenValue {
+  const resolved = resolve(token, flat);
+  switch (resolved.$type) {
+    case 'color':     return cssColor(resolved.$value as DtcgColor);
+    case 'dimension': return cssPx(resolved.$value as DtcgDimension);
+    case 'number':    return resolved.$value as number;
+    case 'shadow':
+      return (resolved.$value as DtcgShadow[])
+        .map(s => [s.inset && 'inset', cssPx(s.offsetX), cssPx(s.offsetY), cssPx(s.blur), cssPx(s.spread), cssColor(s.color)]
+          .filter(Boolean).join(' '))
+        .join(', ');
+    case 'typography': {
+      const t = resolved.$value as DtcgTypography;
+      const textCase = resolved.$extensions?.['com.figma']?.textCase;
+      return {
+        fontFamily:    t.fontFamily,
+        fontWeight:    t.fontWeight,
+        fontSize:      cssPx(t.fontSize),
+        lineHeight:    `${round(t.fontSize.value * t.lineHeight, 2)}px`,
+        letterSpacing: cssPx(t.letterSpacing),
+        textTransform: (textCase && TEXT_TRANSFORM[textCase]) ?? 'none',
+      };
+    }
+  }
+}
+
+// ─── TypeScript module ───────────────────────────────────────────────────────
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+function renderValue(value: unknown, indent: string): string {
+  if (typeof value === 'string') return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  if (typeof value === 'number') return String(value);
+  const entries = Object.entries(value as Record<string, unknown>);
+  const inner = indent + '  ';
+  const lines = entries.map(([k, v]) => `${inner}${IDENTIFIER.test(k) ? k : `'${k}'`}: ${renderValue(v, inner)},`);
+  return `{\n${lines.join('\n')}\n${indent}}`;
+}
+
+/**
+ * The generated module: the DTCG tree with aliases resolved and every leaf
+ * turned into the CSS value components use (`'#265DA5'`, `'4px'`, a
+ * box-shadow list, a typography object).
+ */
+export function renderTokenModule(tokens: DtcgGroup, fileKey: string): string {
+  const flat = flattenTokens(tokens);
+  const tree: Record<string, unknown> = {};
+  for (const [path, token] of flat) {
+    const keys = path.split('.');
+    let node = tree;
+    for (const key of keys.slice(0, -1)) node = (node[key] ??= {}) as Record<string, unknown>;
+    node[keys[keys.length - 1]] = toCssValue(token, flat);
+  }
+  return [
+    '// Generated by tests/sync-figma-tokens.ts — do not edit by hand.',
+    `// Source: Figma file ${fileKey} (local variables + published styles).`,
+    '// DTCG version of the same tokens: figma.tokens.json',
+    '',
+    `export const FIGMA_TOKENS = ${renderValue(tree, '')} as const;`,
+    '',
+  ].join('\n');
+}
+
+// ─── Diff ────────────────────────────────────────────────────────────────────
+
+export interface TokenChange {
+  path:    string;
+  before?: string;
+  after?:  string;
+}
+
+function display(token: DtcgToken, flat: Map<string, DtcgToken>): string {
+  if (typeof token.$value === 'string' && token.$value.startsWith('{')) {
+    return `${token.$value} (${JSON.stringify(toCssValue(token, flat)).replace(/"/g, '')})`;
+  }
+  const css = toCssValue(token, flat);
+  return typeof css === 'object' ? JSON.stringify(css).replace(/"/g, '') : String(css);
+}
+
+/** Added, removed and changed tokens, compared by path and rendered value. */
+export function diffTokens(before: DtcgGroup, after: DtcgGroup): TokenChange[] {
+  const prev = flattenTokens(before);
+  const next = flattenTokens(after);
+  const changes: TokenChange[] = [];
+  for (const path of new Set([...prev.keys(), ...next.keys()])) {
+    const a = prev.get(path);
+    const b = next.get(path);
+    const beforeValue = a && display(a, prev);
+    const afterValue  = b && display(b, next);
+    if (beforeValue !== afterValue) changes.push({ path, before: beforeValue, after: afterValue });
+  }
+  return changes.sort((x, y) => x.path.localeCompare(y.path));
+}
+
+export function formatDiff(changes: TokenChange[]): string {
+  if (changes.length === 0) return 'No token changes.';
+  const width = Math.max(...changes.map(c => c.path.length));
+  const lines = changes.map(({ path, before, after }) => {
+    const name = path.padEnd(width);
+    if (before === undefined) return `  + ${name}  ${after}`;
+    if (after  === undefined) return `  - ${name}  ${before}`;
+    return `  ~ ${name}  ${before} → ${after}`;
+  });
+  return [`${changes.length} token change${changes.length === 1 ? '' : 's'}:`, ...lines].join('\n');
+}
@@ -1,5 +1,4 @@
 import fs from 'node:fs';
-import path from 'node:path';
 import { PNG } from 'pngjs';
 import pixelmatch from 'pixelmatch';
 
@@ -60,3 +59,9 @@ export function compareImages(
     sizeMismatch: false,
   };
 }
+
+/** Pixel size of a PNG file. */
+export function pngSize(file: string): { width: number; height: number } {
+  const { width, height } = PNG.sync.read(fs.readFileSync(file));
+  return { width, height };
+}
@@ -0,0 +1,63 @@
+// ─── Static button stylesheet ─────────────────────────────────────────────────
+//
+// Renders Button.static.css: the `buildVars` / `buildGroupVars` /
+// `buildMenuVars` output for every built-in theme × variant × palette color as
+// class rules, so `<ThemeProvider styling="static">` can drop the inline
+// `style` and render pixel-identical buttons (see `staticClasses` in tokens.ts).
+//
+//   .btn--{scheme}.btn--{variant}                   surface (radius, font, disabled)
+//   .btn--{scheme}.btn--{variant}-{color}:not(…)    colors, skipped when disabled
+//   … .btn--selected:not(…)                         ToggleButton's selected colors
+//   .btn-group--{scheme}                            ButtonGroup outline
+//   .menu--{scheme}                                 MenuButton / SplitButton menu
+//
+// Pure: tests/build-tokens.ts writes the file, tests compare against it.
+
+import {
+  buildGroupVars, buildMenuVars, buildVars, STATIC_THEMES, type ButtonVariant, type CSSVars, type PaletteColor,
+} from '../../src/components/Button/tokens';
+
+const VARIANTS: ButtonVariant[] = ['contained', 'outlined', 'text'];
+
+/** buildVars skips the color variables when disabled; so do the rules. */
+const ENABLED = ":not(:disabled, [aria-disabled='true'])";
+
+function rule(selector: string, vars: CSSVars): string {
+  const decls = Object.entries(vars).map(([name, value]) => `  ${name}: ${value};`);
+  return [`${selector} {`, ...decls, '}'].join('\n');
+}
+
+/** `vars` minus what `surface` already sets to the same value. */
+function without(vars: CSSVars, surface: CSSVars): CSSVars {
+  return Object.fromEntries(Object.entries(vars).filter(([name, value]) => surface[name] !== value));
+}
+
+export function renderStaticStyles(version: string): string {
+  const sections = Object.entries(STATIC_THEMES).map(([scheme, theme]) => {
+    const rules: string[] = [];
+    for (const variant of VARIANTS) {
+      const surface = buildVars(theme, variant, 'primary', true);
+      rules.push(rule(`.btn--${scheme}.btn--${variant}`, surface));
+
+      for (const color of Object.keys(theme.palette) as PaletteColor[]) {
+        const base = `.btn--${scheme}.btn--${variant}-${color}`;
+        rules.push(rule(`${base}${ENABLED}`,              without(buildVars(theme, variant, color, false), surface)));
+        rules.push(rule(`${base}.btn--selected${ENABLED}`, without(buildVars(theme, variant, color, false, true), surface)));
+      }
+    }
+    rules.push(rule(`.btn-group--${scheme}`, buildGroupVars(theme)));
+    rules.push(rule(`.menu--${scheme}`, buildMenuVars(theme)));
+
+    const title = `/* ─── ${scheme} `;
+    return [title + '─'.repeat(80 - title.length - 2) + ' */', '', rules.join('\n\n')].join('\n');
+  });
+
+  return [
+    `/* my-design-system button styles v${version} */`,
+    '/* Generated by tests/build-tokens.ts — do not edit by hand. */',
+    '/* Used by <ThemeProvider styling="static"> in place of inline variables. */',
+    '',
+    sections.join('\n\n'),
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,66 @@
+import type { Page, Locator } from '@playwright/test';
+
+/**
+ * Opens a Storybook story iframe and waits for it to be ready — rendered, and
+ * every web font loaded so glyph metrics are final. `globals` sets toolbar
+ * values, e.g. `{ theme: 'subBrand' }`; `ready` is the element waited for.
+ */
+export async function openStory(
+  page:     Page,
+  storyId:  string,
+  args?:    Record<string, string>,
+  globals?: Record<string, string>,
+  ready     = '.btn',
+) {
+  const argsParam    = args    ? '&args='    + serialize(args)    : '';
+  const globalsParam = globals ? '&globals=' + serialize(globals) : '';
+  await page.goto(`/iframe.html?id=${storyId}&viewMode=story${argsParam}${globalsParam}`);
+  await page.waitForLoadState('networkidle');
+  // By default the .btn class targets our button components (rendered as
+  // <button> or <a>), not Storybook's internal buttons
+  await page.locator(ready).first().waitFor({ state: 'visible', timeout: 10_000 });
+  await page.evaluate(() => document.fonts.ready.then(() => undefined));
+}
+
+function serialize(values: Record<string, string>): string {
+  return Object.entries(values).map(([k, v]) => `${k}:${v}`).join(';');
+}
+
+/** Returns the computed CSS property of a locator element. */
+export async function css(locator: Locator, prop: string): Promise<string> {
+  return locator.evaluate(
+    (el, p) => getComputedStyle(el).getPropertyValue(p),
+    prop,
+  );
+}
+
+/** A font Chromium drew text with, as reported by CDP. */
+export interface PlatformFont {
+  familyName:     string;
+  postScriptName: string;
+  /** True for a web font (@font-face / FontFace), false for an installed one. */
+  isCustomFont:   boolean;
+  glyphCount:     number;
+}
+
+/**
+ * The fonts actually used to render the element's text — not the declared
+ * `font-family`, which names Roboto whether or not it was available.
+ * Chromium only (DevTools protocol).
+ */
+export async function renderedFonts(locator: Locator): Promise<PlatformFont[]> {
+  const page = locator.page();
+  const cdp  = await page.context().newCDPSession(page);
+  await locator.evaluate(el => el.setAttribute('data-font-probe', ''));
+  try {
+    await cdp.send('DOM.enable');
+    await cdp.send('CSS.enable');
+    const { root }   = await cdp.send('DOM.getDocument', { depth: 0 });
+    const { nodeId } = await cdp.send('DOM.querySelector', { nodeId: root.nodeId, selector: '[data-font-probe]' });
+    const { fonts }  = await cdp.send('CSS.getPlatformFontsForNode', { nodeId });
+    return fonts;
+  } finally {
+    await locator.evaluate(el => el.removeAttribute('data-font-probe'));
+    await cdp.detach();
+  }
+}
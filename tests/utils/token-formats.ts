@@ -0,0 +1,229 @@
+// ─── Token export formats ─────────────────────────────────────────────────────
+//
+// Turns the design-system tokens the components use (palette, theme, size
+// scale, breakpoints) into files for apps that can't import them from React:
+//
+//   tokens.css           custom properties on :root, dark overrides by scheme
+//   _tokens.scss         flat $variables plus nested maps
+//   tokens.json          flat { "color.primary.main": "#265DA5", … }
+//   tailwind-preset.js   theme.extend preset
+//
+// Pure: tests/build-tokens.ts writes the files, tests compare against them.
+
+import { BUTTON_DENSITIES, BUTTON_SIZES } from '../../src/tokens/sizes';
+import { BREAKPOINTS } from '../../src/tokens/breakpoints';
+import { DARK_THEME, DEFAULT_THEME, type Theme } from '../../src/components/Button/tokens';
+
+/** Prefix of every CSS custom property and SCSS variable. */
+const PREFIX = 'ds';
+
+export interface Token {
+  /** kebab-case segments, e.g. ['color', 'primary', 'contrast-text'] */
+  path:  string[];
+  value: string | number;
+}
+
+const kebab = (key: string) => key.replace(/[A-Z]/g, c => '-' + c.toLowerCase());
+
+// ─── Collection ──────────────────────────────────────────────────────────────
+
+/** Everything that differs between color schemes. */
+function schemeTokens(theme: Theme): Token[] {
+  const tokens: Token[] = [];
+  for (const [color, { main, hover, rgb, contrastText }] of Object.entries(theme.palette)) {
+    tokens.push(
+      { path: ['color', color, 'main'],          value: main },
+      { path: ['color', color, 'hover'],         value: hover },
+      { path: ['color', color, 'contrast-text'], value: contrastText },
+      // Channels for rgba() tints: rgba(var(--ds-color-primary-rgb), 0.12)
+      { path: ['color', color, 'rgb'],           value: rgb.split(',').join(', ') },
+    );
+  }
+  for (const [key, value] of Object.entries(theme.disabled)) tokens.push({ path: ['color', 'disabled', key], value });
+  for (const [key, value] of Object.entries(theme.tint))     tokens.push({ path: ['tint', kebab(key)], value });
+  for (const [key, value] of Object.entries(theme.elevation)) tokens.push({ path: ['shadow', key], value });
+  return tokens;
+}
+
+/** Scheme-independent tokens. */
+function sharedTokens(theme: Theme): Token[] {
+  const { typography, shape } = theme;
+  const tokens: Token[] = [
+    { path: ['font', 'family'],         value: typography.fontFamily },
+    { path: ['font', 'weight'],         value: typography.fontWeight },
+    { path: ['font', 'letter-spacing'], value: typography.letterSpacing },
+    { path: ['font', 'text-transform'], value: typography.textTransform },
+    { path: ['radius', 'button'],       value: shape.borderRadius },
+  ];
+  for (const [size, metrics] of Object.entries(BUTTON_SIZES)) {
+    for (const [key, px] of Object.entries(metrics)) {
+      tokens.push({ path: ['button', size, kebab(key)], value: `${px}px` });
+    }
+  }
+  // Padding multipliers: compact padding-y = floor(button-*-padding-y × 0.5)
+  for (const [density, scale] of Object.entries(BUTTON_DENSITIES)) {
+    for (const [key, factor] of Object.entries(scale)) {
+      tokens.push({ path: ['density', density, kebab(key)], value: factor });
+    }
+  }
+  for (const [name, px] of Object.entries(BREAKPOINTS)) {
+    tokens.push({ path: ['breakpoint', name], value: `${px}px` });
+  }
+  return tokens;
+}
+
+export interface TokenSet {
+  /** Light scheme plus everything shared — the defaults. */
+  base: Token[];
+  /** Only the values the dark scheme changes. */
+  dark: Token[];
+}
+
+export function collectTokens(): TokenSet {
+  const light = schemeTokens(DEFAULT_THEME);
+  const values = new Map(light.map(t => [t.path.join('.'), t.value]));
+  const dark = schemeTokens(DARK_THEME).filter(t => values.get(t.path.join('.')) !== t.value);
+  return { base: [...light, ...sharedTokens(DEFAULT_THEME)], dark };
+}
+
+// ─── Formats ─────────────────────────────────────────────────────────────────
+
+const cssName = (path: string[]) => `--${PREFIX}-${path.join('-')}`;
+
+function header(version: string, comment: (line: string) => string): string {
+  return [
+    comment(`my-design-system tokens v${version}`),
+    comment('Generated by tests/build-tokens.ts — do not edit by hand.'),
+  ].join('\n');
+}
+
+const block = (comment: string) => `/* ${comment} */`;
+const line  = (comment: string) => `// ${comment}`;
+
+export function toCss({ base, dark }: TokenSet, version: string): string {
+  const decls = (tokens: Token[], indent: string) =>
+    tokens.map(t => `${indent}${cssName(t.path)}: ${t.value};`).join('\n');
+  return [
+    header(version, block),
+    '',
+    ':root {',
+    decls(base, '  '),
+    '}',
+    '',
+    "/* Dark scheme: data-theme on <html>, or the OS preference when it isn't set. */",
+    "[data-theme='dark'] {",
+    decls(dark, '  '),
+    '}',
+    '',
+    '@media (prefers-color-scheme: dark) {',
+    "  :root:not([data-theme='light']) {",
+    decls(dark, '    '),
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+}
+
+/**
+ * SCSS value. Comma lists (shadows, font stacks) are fine as a variable's
+ * value but need parentheses inside a map, where commas separate entries.
+ */
+function scssValue(value: string | number, inMap = false): string {
+  if (typeof value === 'number') return String(value);
+  return inMap && value.includes(',') && !/^rgba?\(/.test(value) ? `(${value})` : value;
+}
+
+function scssMap(tree: Record<string, unknown>, indent: string): string {
+  const inner = indent + '  ';
+  const entries = Object.entries(tree).map(([key, value]) =>
+    typeof value === 'object'
+      ? `${inner}'${key}': ${scssMap(value as Record<string, unknown>, inner)}`
+      : `${inner}'${key}': ${scssValue(value as string | number, true)}`);
+  return `(\n${entries.join(',\n')},\n${indent})`;
+}
+
+function nest(tokens: Token[], from = 0): Record<string, unknown> {
+  const tree: Record<string, unknown> = {};
+  for (const { path, value } of tokens) {
+    let node = tree;
+    for (const key of path.slice(from, -1)) node = (node[key] ??= {}) as Record<string, unknown>;
+    node[path[path.length - 1]] = value;
+  }
+  return tree;
+}
+
+export function toScss({ base, dark }: TokenSet, version: string): string {
+  const vars = base.map(t => `$${PREFIX}-${t.path.join('-')}: ${scssValue(t.value)};`);
+  const group = (name: string, tokens: Token[]) => tokens.filter(t => t.path[0] === name);
+  return [
+    header(version, line),
+    '',
+    ...vars,
+    '',
+    '// Maps, for @each loops: map.get($ds-palette, primary, main)',
+    `$${PREFIX}-palette: ${scssMap(nest(group('color', base), 1), '')};`,
+    '',
+    `$${PREFIX}-palette-dark: ${scssMap(nest(group('color', dark), 1), '')};`,
+    '',
+    `$${PREFIX}-button-sizes: ${scssMap(nest(group('button', base), 1), '')};`,
+    '',
+    `$${PREFIX}-breakpoints: ${scssMap(nest(group('breakpoint', base), 1), '')};`,
+    '',
+  ].join('\n');
+}
+
+export function toJson({ base, dark }: TokenSet, version: string): string {
+  const flat: Record<string, string | number> = { $version: version };
+  for (const t of base) flat[t.path.join('.')] = t.value;
+  for (const t of dark) flat[['dark', ...t.path].join('.')] = t.value;
+  return JSON.stringify(flat, null, 2) + '\n';
+}
+
+export function toTailwindPreset({ base, dark }: TokenSet, version: string): string {
+  const tree  = nest(base) as Record<string, Record<string, unknown>>;
+  const palette = (colors: Record<string, unknown>) => Object.fromEntries(
+    Object.entries(colors).map(([name, value]) => {
+      if (name === 'disabled') return [name, value];
+      const { main, hover, 'contrast-text': contrast } = value as Record<string, string>;
+      return [name, { DEFAULT: main, hover, contrast }];
+    }),
+  );
+  const sizes = tree.button as Record<string, Record<string, string>>;
+  const preset = {
+    theme: {
+      extend: {
+        colors: { ...palette(tree.color), dark: palette(nest(dark).color as Record<string, unknown>) },
+        borderRadius: { button: tree.radius.button },
+        boxShadow: Object.fromEntries(
+          Object.entries(tree.shadow).map(([k, v]) => [`button-${k}`, v]),
+        ),
+        fontFamily: { button: (tree.font.family as string).split(',').map(f => f.trim()) },
+        height:   Object.fromEntries(Object.entries(sizes).map(([s, m]) => [`button-${s}`, m.height])),
+        fontSize: Object.fromEntries(Object.entries(sizes).map(([s, m]) => [`button-${s}`, [m['font-size'], m['line-height']]])),
+        screens:  Object.fromEntries(
+          Object.entries(tree.breakpoint as Record<string, string>).filter(([, v]) => v !== '0px'),
+        ),
+      },
+    },
+  };
+  return [
+    header(version, line),
+    '',
+    '/** @type {import(\'tailwindcss\').Config} */',
+    `export default ${JSON.stringify(preset, null, 2)};`,
+    '',
+  ].join('\n');
+}
+
+// ─── Files ───────────────────────────────────────────────────────────────────
+
+/** File name → contents, for the output directory. */
+export function buildTokenFiles(version: string): Record<string, string> {
+  const tokens = collectTokens();
+  return {
+    'tokens.css':         toCss(tokens, version),
+    '_tokens.scss':       toScss(tokens, version),
+    'tokens.json':        toJson(tokens, version),
+    'tailwind-preset.js': toTailwindPreset(tokens, version),
+  };
+}